@@ -3,35 +3,135 @@ pragma solidity ^0.8.19;
 
 /**
  * @title ConfidentialPortfolio
- * @dev A confidential portfolio management contract using FHE (Fully Homomorphic Encryption)
- * @notice This contract allows users to manage their asset portfolios with complete privacy
- * 
- * Deployed at: 0x9456163460c15Ffd74503F9Fc93603B4bac6309A (Sepolia Testnet)
+ * @dev A confidential portfolio management contract that stores client-side encrypted holdings
+ * @notice This contract allows users to manage their asset portfolios with complete privacy.
+ * Amounts and values are encrypted in the browser; the contract only ever sees ciphertexts.
+ * An address can own several named portfolios; each has a contract-wide ID and its own
+ * assets, grants and value history.
  */
 contract ConfidentialPortfolio {
     // Events
-    event PortfolioCreated(address indexed user, uint256 timestamp);
-    event AssetAdded(address indexed user, string symbol, uint256 timestamp);
-    event AssetUpdated(address indexed user, string symbol, uint256 timestamp);
-    event AssetRemoved(address indexed user, string symbol, uint256 timestamp);
+    event PortfolioCreated(address indexed user, uint256 indexed portfolioId, string name, uint256 timestamp);
+    event PortfolioRenamed(address indexed user, uint256 indexed portfolioId, string name, uint256 timestamp);
+    event PortfolioClosed(address indexed user, uint256 indexed portfolioId, uint256 timestamp);
+    event AssetAdded(address indexed user, uint256 indexed portfolioId, string symbol, uint256 timestamp);
+    event AssetUpdated(address indexed user, uint256 indexed portfolioId, string symbol, uint256 timestamp);
+    event AssetRemoved(address indexed user, uint256 indexed portfolioId, string symbol, uint256 timestamp);
+    event AccessGranted(
+        address indexed owner,
+        address indexed viewer,
+        uint256 indexed portfolioId,
+        string symbol,
+        uint256 expiresAt
+    );
+    event AccessRevoked(address indexed owner, address indexed viewer, uint256 indexed portfolioId, string symbol);
+    event ViewerKeyRegistered(address indexed viewer);
+
+    // Upper bound for a single ciphertext, keeps storage writes bounded
+    uint256 public constant MAX_CIPHERTEXT_LENGTH = 64;
+
+    // Upper bound on changes per applyAssetChanges call, keeps the transaction under the block gas limit
+    uint256 public constant MAX_BATCH_SIZE = 20;
+
+    // Upper bound on grants per portfolio, keeps access checks and getGrants bounded
+    uint256 public constant MAX_GRANTS = 50;
+
+    // Upper bound for a sealed decryption key attached to a grant
+    uint256 public constant MAX_SEALED_KEY_LENGTH = 128;
+
+    // Value checkpoints kept per asset; once full, each new one overwrites the oldest
+    uint256 public constant MAX_CHECKPOINTS = 100;
+
+    // Upper bound on portfolios per owner, keeps getPortfolios bounded
+    uint256 public constant MAX_PORTFOLIOS = 20;
+
+    // Upper bound for a portfolio name, in bytes
+    uint256 public constant MAX_NAME_LENGTH = 32;
+
+    // A named portfolio; an unset owner means the ID was never created or has been closed
+    struct Portfolio {
+        address owner;
+        string name;
+        uint256 createdAt;
+    }
 
     // Struct to store encrypted asset information
     struct Asset {
-        uint256 encryptedAmount;    // FHE encrypted amount
-        uint256 encryptedValue;     // FHE encrypted USD value
+        bytes encryptedAmount;     // Client-side encrypted amount (opaque)
+        bytes encryptedValue;      // Client-side encrypted USD value (opaque)
         uint256 lastUpdate;        // Timestamp of last update
         bool exists;               // Whether the asset exists
     }
 
+    enum ChangeType { Add, Update, Remove }
+
+    // One row of a batch; amount and value are ignored for removals
+    struct AssetChange {
+        ChangeType changeType;
+        string symbol;
+        bytes amount;
+        bytes value;
+    }
+
+    // Read-only view of one portfolio, returned by getPortfolio and getPortfolios
+    struct PortfolioInfo {
+        uint256 id;
+        address owner;
+        string name;
+        uint256 assetCount;
+        uint256 createdAt;
+    }
+
+    // Read-only view of one asset, returned by getPortfolioAssets
+    struct AssetView {
+        string symbol;
+        bytes encryptedAmount;
+        bytes encryptedValue;
+        uint256 lastUpdate;
+    }
+
+    // Encrypted value of an asset as of an add or update
+    struct ValueCheckpoint {
+        bytes encryptedValue;
+        uint256 timestamp;
+    }
+
+    // Read access given by a portfolio owner to a viewer, e.g. an accountant or auditor.
+    // An empty symbol covers the whole portfolio. sealedKey is the decryption key
+    // encrypted to the viewer's registered public key, so only the viewer can open it.
+    struct AccessGrant {
+        address viewer;
+        string symbol;
+        uint256 expiresAt;
+        bytes sealedKey;
+    }
+
     // Mappings
-    mapping(address => bool) public portfolioExists;
-    mapping(address => mapping(string => Asset)) private userAssets;
-    mapping(address => string[]) private userAssetSymbols;
-    mapping(address => uint256) private userAssetCount;
+    // Number of portfolios ever created; IDs run from 1 to portfolioCount and are never reused
+    uint256 public portfolioCount;
+    mapping(uint256 => Portfolio) private portfolios;
+    mapping(address => uint256[]) private ownerPortfolioIds;
+    mapping(uint256 => mapping(string => Asset)) private portfolioAssets;
+    mapping(uint256 => string[]) private portfolioAssetSymbols;
+    mapping(uint256 => uint256) private portfolioAssetCount;
+    mapping(uint256 => AccessGrant[]) private portfolioGrants;
+    // Ring buffer of value checkpoints per asset, indexed by write count modulo MAX_CHECKPOINTS
+    mapping(uint256 => mapping(string => mapping(uint256 => ValueCheckpoint))) private valueCheckpoints;
+    // Checkpoints written since the asset was added; reset on removal, which drops its history
+    mapping(uint256 => mapping(string => uint256)) private checkpointsWritten;
+    // Compressed secp256k1 public key a viewer publishes so owners can seal keys to it
+    mapping(address => bytes) public viewerKeys;
 
     // Modifiers
-    modifier onlyPortfolioOwner() {
-        require(portfolioExists[msg.sender], "Portfolio does not exist");
+    modifier onlyPortfolioOwner(uint256 portfolioId) {
+        require(portfolios[portfolioId].owner != address(0), "Portfolio does not exist");
+        require(portfolios[portfolioId].owner == msg.sender, "Not portfolio owner");
+        _;
+    }
+
+    modifier validName(string memory name) {
+        require(bytes(name).length > 0, "Portfolio name cannot be empty");
+        require(bytes(name).length <= MAX_NAME_LENGTH, "Portfolio name too long");
         _;
     }
 
@@ -41,87 +141,194 @@ contract ConfidentialPortfolio {
         _;
     }
 
+    modifier validCiphertext(bytes memory amount, bytes memory value) {
+        require(amount.length > 0, "Encrypted amount cannot be empty");
+        require(value.length > 0, "Encrypted value cannot be empty");
+        require(amount.length <= MAX_CIPHERTEXT_LENGTH, "Encrypted amount too long");
+        require(value.length <= MAX_CIPHERTEXT_LENGTH, "Encrypted value too long");
+        _;
+    }
+
     /**
-     * @dev Creates a new portfolio for the caller
-     * @notice Each address can only have one portfolio
+     * @dev Creates a new named portfolio owned by the caller
+     * @param name Display name, e.g. "Long-term" or "Client A"
+     * @return portfolioId The ID of the new portfolio
+     * @notice An address can own up to MAX_PORTFOLIOS portfolios; names need not be unique
      */
-    function createPortfolio() external {
-        require(!portfolioExists[msg.sender], "Portfolio already exists");
-        
-        portfolioExists[msg.sender] = true;
-        userAssetCount[msg.sender] = 0;
-        
-        emit PortfolioCreated(msg.sender, block.timestamp);
+    function createPortfolio(string calldata name) external validName(name) returns (uint256 portfolioId) {
+        require(ownerPortfolioIds[msg.sender].length < MAX_PORTFOLIOS, "Too many portfolios");
+
+        portfolioId = ++portfolioCount;
+        portfolios[portfolioId] = Portfolio({ owner: msg.sender, name: name, createdAt: block.timestamp });
+        ownerPortfolioIds[msg.sender].push(portfolioId);
+
+        emit PortfolioCreated(msg.sender, portfolioId, name, block.timestamp);
+    }
+
+    /**
+     * @dev Renames one of the caller's portfolios
+     * @param portfolioId The portfolio to rename
+     * @param name The new display name
+     */
+    function renamePortfolio(uint256 portfolioId, string calldata name)
+        external
+        onlyPortfolioOwner(portfolioId)
+        validName(name)
+    {
+        portfolios[portfolioId].name = name;
+        emit PortfolioRenamed(msg.sender, portfolioId, name, block.timestamp);
+    }
+
+    /**
+     * @dev Closes one of the caller's portfolios, deleting every asset and grant in it
+     * @param portfolioId The portfolio to close
+     * @notice Gas grows with the number of assets. The ID is not reused, so value
+     * checkpoints left behind can never be read again.
+     */
+    function closePortfolio(uint256 portfolioId) external onlyPortfolioOwner(portfolioId) {
+        string[] storage symbols = portfolioAssetSymbols[portfolioId];
+        for (uint256 i = 0; i < symbols.length; i++) {
+            delete portfolioAssets[portfolioId][symbols[i]];
+            delete checkpointsWritten[portfolioId][symbols[i]];
+        }
+        delete portfolioAssetSymbols[portfolioId];
+        delete portfolioAssetCount[portfolioId];
+        delete portfolioGrants[portfolioId];
+
+        // Shift the remaining IDs down so getPortfolios stays oldest first
+        uint256[] storage ids = ownerPortfolioIds[msg.sender];
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (ids[i] == portfolioId) {
+                for (uint256 j = i; j + 1 < ids.length; j++) {
+                    ids[j] = ids[j + 1];
+                }
+                ids.pop();
+                break;
+            }
+        }
+        delete portfolios[portfolioId];
+
+        emit PortfolioClosed(msg.sender, portfolioId, block.timestamp);
     }
 
     /**
-     * @dev Adds a new asset to the user's portfolio
+     * @dev Adds a new asset to one of the caller's portfolios
+     * @param portfolioId The portfolio to add to
      * @param symbol The asset symbol (e.g., "BTC", "ETH")
-     * @param amount The encrypted amount of the asset (uint64 scaled)
-     * @param value The encrypted USD value of the asset (uint64 scaled)
-     * @notice The amount and value are encrypted using FHE before storage
+     * @param amount The encrypted amount of the asset (ciphertext of a scaled integer)
+     * @param value The encrypted USD value of the asset (ciphertext of a scaled integer)
+     * @notice The amount and value are encrypted in the owner's browser before submission;
+     * the contract only stores the ciphertexts and never sees the plaintext
      */
     function addAsset(
+        uint256 portfolioId,
         string memory symbol,
-        uint64 amount,
-        uint64 value
-    ) external onlyPortfolioOwner validAsset(symbol) {
-        require(!userAssets[msg.sender][symbol].exists, "Asset already exists");
-        require(amount > 0, "Amount must be greater than 0");
-        require(value > 0, "Value must be greater than 0");
-
-        // Store encrypted values (in real FHE implementation, these would be properly encrypted)
-        userAssets[msg.sender][symbol] = Asset({
-            encryptedAmount: uint256(amount), // Placeholder for FHE encrypted value
-            encryptedValue: uint256(value),   // Placeholder for FHE encrypted value
-            lastUpdate: block.timestamp,
-            exists: true
-        });
-
-        userAssetSymbols[msg.sender].push(symbol);
-        userAssetCount[msg.sender]++;
-
-        emit AssetAdded(msg.sender, symbol, block.timestamp);
+        bytes memory amount,
+        bytes memory value
+    ) external onlyPortfolioOwner(portfolioId) {
+        _addAsset(portfolioId, symbol, amount, value);
     }
 
     /**
-     * @dev Updates an existing asset in the user's portfolio
+     * @dev Updates an existing asset in one of the caller's portfolios
+     * @param portfolioId The portfolio holding the asset
      * @param symbol The asset symbol to update
      * @param newAmount The new encrypted amount
      * @param newValue The new encrypted USD value
      */
     function updateAsset(
+        uint256 portfolioId,
         string memory symbol,
-        uint64 newAmount,
-        uint64 newValue
-    ) external onlyPortfolioOwner validAsset(symbol) {
-        require(userAssets[msg.sender][symbol].exists, "Asset does not exist");
-        require(newAmount > 0, "Amount must be greater than 0");
-        require(newValue > 0, "Value must be greater than 0");
-
-        userAssets[msg.sender][symbol].encryptedAmount = uint256(newAmount);
-        userAssets[msg.sender][symbol].encryptedValue = uint256(newValue);
-        userAssets[msg.sender][symbol].lastUpdate = block.timestamp;
-
-        emit AssetUpdated(msg.sender, symbol, block.timestamp);
+        bytes memory newAmount,
+        bytes memory newValue
+    ) external onlyPortfolioOwner(portfolioId) {
+        _updateAsset(portfolioId, symbol, newAmount, newValue);
     }
 
     /**
-     * @dev Removes an asset from the user's portfolio
+     * @dev Removes an asset from one of the caller's portfolios
+     * @param portfolioId The portfolio holding the asset
      * @param symbol The asset symbol to remove
      */
-    function removeAsset(string memory symbol) 
-        external 
-        onlyPortfolioOwner 
-        validAsset(symbol) 
+    function removeAsset(uint256 portfolioId, string memory symbol) external onlyPortfolioOwner(portfolioId) {
+        _removeAsset(portfolioId, symbol);
+    }
+
+    /**
+     * @dev Applies several adds, updates and removals to one portfolio in one transaction
+     * @param portfolioId The portfolio the changes apply to
+     * @param changes The changes, applied in order
+     * @notice Every change is validated like its single-asset counterpart; if any
+     * of them is invalid the whole batch reverts and nothing is written
+     */
+    function applyAssetChanges(uint256 portfolioId, AssetChange[] calldata changes)
+        external
+        onlyPortfolioOwner(portfolioId)
     {
-        require(userAssets[msg.sender][symbol].exists, "Asset does not exist");
+        require(changes.length > 0, "Batch cannot be empty");
+        require(changes.length <= MAX_BATCH_SIZE, "Batch too large");
+
+        for (uint256 i = 0; i < changes.length; i++) {
+            AssetChange calldata change = changes[i];
+            if (change.changeType == ChangeType.Add) {
+                _addAsset(portfolioId, change.symbol, change.amount, change.value);
+            } else if (change.changeType == ChangeType.Update) {
+                _updateAsset(portfolioId, change.symbol, change.amount, change.value);
+            } else {
+                _removeAsset(portfolioId, change.symbol);
+            }
+        }
+    }
+
+    // Internal Functions
+
+    function _addAsset(
+        uint256 portfolioId,
+        string memory symbol,
+        bytes memory amount,
+        bytes memory value
+    ) internal validAsset(symbol) validCiphertext(amount, value) {
+        require(!portfolioAssets[portfolioId][symbol].exists, "Asset already exists");
+
+        portfolioAssets[portfolioId][symbol] = Asset({
+            encryptedAmount: amount,
+            encryptedValue: value,
+            lastUpdate: block.timestamp,
+            exists: true
+        });
+
+        portfolioAssetSymbols[portfolioId].push(symbol);
+        portfolioAssetCount[portfolioId]++;
+        _recordCheckpoint(portfolioId, symbol, value);
+
+        emit AssetAdded(msg.sender, portfolioId, symbol, block.timestamp);
+    }
+
+    function _updateAsset(
+        uint256 portfolioId,
+        string memory symbol,
+        bytes memory newAmount,
+        bytes memory newValue
+    ) internal validAsset(symbol) validCiphertext(newAmount, newValue) {
+        require(portfolioAssets[portfolioId][symbol].exists, "Asset does not exist");
+
+        portfolioAssets[portfolioId][symbol].encryptedAmount = newAmount;
+        portfolioAssets[portfolioId][symbol].encryptedValue = newValue;
+        portfolioAssets[portfolioId][symbol].lastUpdate = block.timestamp;
+        _recordCheckpoint(portfolioId, symbol, newValue);
+
+        emit AssetUpdated(msg.sender, portfolioId, symbol, block.timestamp);
+    }
+
+    function _removeAsset(uint256 portfolioId, string memory symbol) internal validAsset(symbol) {
+        require(portfolioAssets[portfolioId][symbol].exists, "Asset does not exist");
+
+        // Remove from assets mapping; old checkpoints become unreachable and are overwritten if re-added
+        delete portfolioAssets[portfolioId][symbol];
+        checkpointsWritten[portfolioId][symbol] = 0;
 
-        // Remove from assets mapping
-        delete userAssets[msg.sender][symbol];
-        
         // Remove from symbols array
-        string[] storage symbols = userAssetSymbols[msg.sender];
+        string[] storage symbols = portfolioAssetSymbols[portfolioId];
         for (uint256 i = 0; i < symbols.length; i++) {
             if (keccak256(bytes(symbols[i])) == keccak256(bytes(symbol))) {
                 symbols[i] = symbols[symbols.length - 1];
@@ -129,103 +336,331 @@ contract ConfidentialPortfolio {
                 break;
             }
         }
-        
-        userAssetCount[msg.sender]--;
 
-        emit AssetRemoved(msg.sender, symbol, block.timestamp);
+        portfolioAssetCount[portfolioId]--;
+
+        emit AssetRemoved(msg.sender, portfolioId, symbol, block.timestamp);
+    }
+
+    function _recordCheckpoint(uint256 portfolioId, string memory symbol, bytes memory value) internal {
+        uint256 written = checkpointsWritten[portfolioId][symbol];
+        valueCheckpoints[portfolioId][symbol][written % MAX_CHECKPOINTS] = ValueCheckpoint({
+            encryptedValue: value,
+            timestamp: block.timestamp
+        });
+        checkpointsWritten[portfolioId][symbol] = written + 1;
+    }
+
+    // Access Grants
+
+    /**
+     * @dev Registers the caller's public key for receiving sealed decryption keys
+     * @param publicKey Compressed secp256k1 public key (33 bytes)
+     */
+    function setViewerKey(bytes calldata publicKey) external {
+        require(publicKey.length == 33, "Invalid public key");
+        viewerKeys[msg.sender] = publicKey;
+        emit ViewerKeyRegistered(msg.sender);
+    }
+
+    /**
+     * @dev Grants a viewer read access to one of the caller's portfolios until an expiry
+     * @param portfolioId The portfolio shared
+     * @param viewer The address given access
+     * @param symbol The asset covered, or an empty string for the whole portfolio
+     * @param expiresAt Unix time at which the grant stops applying
+     * @param sealedKey The decryption key, sealed to the viewer's public key
+     * @notice Granting again for the same viewer and symbol replaces the earlier grant
+     */
+    function grantAccess(
+        uint256 portfolioId,
+        address viewer,
+        string calldata symbol,
+        uint256 expiresAt,
+        bytes calldata sealedKey
+    ) external onlyPortfolioOwner(portfolioId) {
+        require(viewer != address(0) && viewer != msg.sender, "Invalid viewer");
+        require(expiresAt > block.timestamp, "Expiry must be in the future");
+        require(sealedKey.length > 0 && sealedKey.length <= MAX_SEALED_KEY_LENGTH, "Invalid sealed key");
+        if (bytes(symbol).length > 0) {
+            require(portfolioAssets[portfolioId][symbol].exists, "Asset does not exist");
+        }
+
+        AccessGrant[] storage grants = portfolioGrants[portfolioId];
+        (bool found, uint256 index) = _findGrant(grants, viewer, symbol);
+        if (found) {
+            grants[index].expiresAt = expiresAt;
+            grants[index].sealedKey = sealedKey;
+        } else {
+            require(grants.length < MAX_GRANTS, "Too many grants");
+            grants.push(AccessGrant({ viewer: viewer, symbol: symbol, expiresAt: expiresAt, sealedKey: sealedKey }));
+        }
+
+        emit AccessGranted(msg.sender, viewer, portfolioId, symbol, expiresAt);
+    }
+
+    /**
+     * @dev Revokes a viewer's grant on one of the caller's portfolios
+     * @param portfolioId The portfolio of the grant
+     * @param viewer The address whose access is revoked
+     * @param symbol The asset of the grant, or an empty string for the whole-portfolio grant
+     */
+    function revokeAccess(uint256 portfolioId, address viewer, string calldata symbol)
+        external
+        onlyPortfolioOwner(portfolioId)
+    {
+        AccessGrant[] storage grants = portfolioGrants[portfolioId];
+        (bool found, uint256 index) = _findGrant(grants, viewer, symbol);
+        require(found, "Grant does not exist");
+
+        grants[index] = grants[grants.length - 1];
+        grants.pop();
+
+        emit AccessRevoked(msg.sender, viewer, portfolioId, symbol);
+    }
+
+    /**
+     * @dev Returns every grant on a portfolio, expired ones included
+     * @param portfolioId The portfolio ID
+     */
+    function getGrants(uint256 portfolioId) external view returns (AccessGrant[] memory) {
+        return portfolioGrants[portfolioId];
+    }
+
+    /**
+     * @dev Whether a viewer may read an asset of a portfolio right now
+     * @param portfolioId The portfolio ID
+     * @param viewer The reading address
+     * @param symbol The asset, or an empty string to ask about the whole portfolio
+     * @notice eth_call lets the caller pick any sender, so this gates the contract's own
+     * views only; the data itself stays confidential because it is encrypted
+     */
+    function hasAccess(uint256 portfolioId, address viewer, string memory symbol) public view returns (bool) {
+        address owner = portfolios[portfolioId].owner;
+        if (owner == address(0)) {
+            return false;
+        }
+        if (viewer == owner) {
+            return true;
+        }
+
+        AccessGrant[] storage grants = portfolioGrants[portfolioId];
+        bytes32 symbolHash = keccak256(bytes(symbol));
+        for (uint256 i = 0; i < grants.length; i++) {
+            if (grants[i].viewer != viewer || grants[i].expiresAt <= block.timestamp) {
+                continue;
+            }
+            if (bytes(grants[i].symbol).length == 0 || keccak256(bytes(grants[i].symbol)) == symbolHash) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    function _findGrant(
+        AccessGrant[] storage grants,
+        address viewer,
+        string calldata symbol
+    ) internal view returns (bool, uint256) {
+        bytes32 symbolHash = keccak256(bytes(symbol));
+        for (uint256 i = 0; i < grants.length; i++) {
+            if (grants[i].viewer == viewer && keccak256(bytes(grants[i].symbol)) == symbolHash) {
+                return (true, i);
+            }
+        }
+        return (false, 0);
     }
 
     // View Functions
 
     /**
-     * @dev Returns all asset symbols for a user
-     * @param user The user address
+     * @dev Whether a portfolio ID has been created and not closed
+     * @param portfolioId The portfolio ID
+     */
+    function portfolioExists(uint256 portfolioId) external view returns (bool) {
+        return portfolios[portfolioId].owner != address(0);
+    }
+
+    /**
+     * @dev Returns the owner, name and asset count of a portfolio
+     * @param portfolioId The portfolio ID
+     */
+    function getPortfolio(uint256 portfolioId) public view returns (PortfolioInfo memory) {
+        Portfolio storage portfolio = portfolios[portfolioId];
+        require(portfolio.owner != address(0), "Portfolio does not exist");
+        return PortfolioInfo({
+            id: portfolioId,
+            owner: portfolio.owner,
+            name: portfolio.name,
+            assetCount: portfolioAssetCount[portfolioId],
+            createdAt: portfolio.createdAt
+        });
+    }
+
+    /**
+     * @dev Returns every portfolio of an owner, oldest first
+     * @param owner The owner address
+     */
+    function getPortfolios(address owner) external view returns (PortfolioInfo[] memory) {
+        uint256[] storage ids = ownerPortfolioIds[owner];
+        PortfolioInfo[] memory infos = new PortfolioInfo[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            infos[i] = getPortfolio(ids[i]);
+        }
+        return infos;
+    }
+
+    /**
+     * @dev Returns all asset symbols of a portfolio
+     * @param portfolioId The portfolio ID
      * @return Array of asset symbols
      */
-    function getAssetSymbols(address user) external view returns (string[] memory) {
-        return userAssetSymbols[user];
+    function getAssetSymbols(uint256 portfolioId) external view returns (string[] memory) {
+        return portfolioAssetSymbols[portfolioId];
+    }
+
+    /**
+     * @dev Returns every asset of a portfolio in a single call
+     * @param portfolioId The portfolio ID
+     * @return Symbol, ciphertexts and last update of each asset, in getAssetSymbols order;
+     * ciphertexts the caller has no access to are left empty
+     */
+    function getPortfolioAssets(uint256 portfolioId) external view returns (AssetView[] memory) {
+        string[] memory symbols = portfolioAssetSymbols[portfolioId];
+        AssetView[] memory assets = new AssetView[](symbols.length);
+
+        for (uint256 i = 0; i < symbols.length; i++) {
+            Asset storage asset = portfolioAssets[portfolioId][symbols[i]];
+            bool readable = hasAccess(portfolioId, msg.sender, symbols[i]);
+            assets[i] = AssetView({
+                symbol: symbols[i],
+                encryptedAmount: readable ? asset.encryptedAmount : bytes(""),
+                encryptedValue: readable ? asset.encryptedValue : bytes(""),
+                lastUpdate: asset.lastUpdate
+            });
+        }
+
+        return assets;
     }
 
     /**
      * @dev Returns the encrypted amount for a specific asset
-     * @param user The user address
+     * @param portfolioId The portfolio ID
      * @param symbol The asset symbol
-     * @return The encrypted amount (placeholder implementation)
+     * @return The encrypted amount ciphertext
      */
-    function getEncryptedAssetAmount(address user, string memory symbol) 
-        external 
-        view 
-        returns (uint256) 
+    function getEncryptedAssetAmount(uint256 portfolioId, string memory symbol)
+        external
+        view
+        returns (bytes memory)
     {
-        require(userAssets[user][symbol].exists, "Asset does not exist");
-        return userAssets[user][symbol].encryptedAmount;
+        require(portfolioAssets[portfolioId][symbol].exists, "Asset does not exist");
+        require(hasAccess(portfolioId, msg.sender, symbol), "Access denied");
+        return portfolioAssets[portfolioId][symbol].encryptedAmount;
     }
 
     /**
      * @dev Returns the encrypted value for a specific asset
-     * @param user The user address
+     * @param portfolioId The portfolio ID
      * @param symbol The asset symbol
-     * @return The encrypted value (placeholder implementation)
+     * @return The encrypted value ciphertext
      */
-    function getEncryptedAssetValue(address user, string memory symbol) 
-        external 
-        view 
-        returns (uint256) 
+    function getEncryptedAssetValue(uint256 portfolioId, string memory symbol)
+        external
+        view
+        returns (bytes memory)
     {
-        require(userAssets[user][symbol].exists, "Asset does not exist");
-        return userAssets[user][symbol].encryptedValue;
+        require(portfolioAssets[portfolioId][symbol].exists, "Asset does not exist");
+        require(hasAccess(portfolioId, msg.sender, symbol), "Access denied");
+        return portfolioAssets[portfolioId][symbol].encryptedValue;
     }
 
     /**
-     * @dev Returns the encrypted total portfolio value for a user
-     * @param user The user address
-     * @return The encrypted total value (placeholder implementation)
+     * @dev Returns the encrypted USD values of every asset in a portfolio
+     * @param portfolioId The portfolio ID
+     * @return The encrypted values, in the same order as getAssetSymbols; empty where the
+     * caller has no access
+     * @notice Ciphertexts cannot be added on-chain; the owner decrypts them and sums locally
      */
-    function getEncryptedTotalValue(address user) external view returns (uint256) {
-        if (!portfolioExists[user]) {
-            return 0;
-        }
+    function getEncryptedTotalValue(uint256 portfolioId) external view returns (bytes[] memory) {
+        string[] memory symbols = portfolioAssetSymbols[portfolioId];
+        bytes[] memory values = new bytes[](symbols.length);
 
-        uint256 totalValue = 0;
-        string[] memory symbols = userAssetSymbols[user];
-        
         for (uint256 i = 0; i < symbols.length; i++) {
-            totalValue += userAssets[user][symbols[i]].encryptedValue;
+            if (hasAccess(portfolioId, msg.sender, symbols[i])) {
+                values[i] = portfolioAssets[portfolioId][symbols[i]].encryptedValue;
+            }
         }
-        
-        return totalValue;
+
+        return values;
     }
 
     /**
      * @dev Returns the last update timestamp for a specific asset
-     * @param user The user address
+     * @param portfolioId The portfolio ID
      * @param symbol The asset symbol
      * @return The timestamp of the last update
      */
-    function getAssetLastUpdate(address user, string memory symbol) 
-        external 
-        view 
-        returns (uint256) 
+    function getAssetLastUpdate(uint256 portfolioId, string memory symbol)
+        external
+        view
+        returns (uint256)
     {
-        require(userAssets[user][symbol].exists, "Asset does not exist");
-        return userAssets[user][symbol].lastUpdate;
+        require(portfolioAssets[portfolioId][symbol].exists, "Asset does not exist");
+        return portfolioAssets[portfolioId][symbol].lastUpdate;
     }
 
     /**
-     * @dev Returns the number of assets in a user's portfolio
-     * @param user The user address
+     * @dev Returns the number of assets in a portfolio
+     * @param portfolioId The portfolio ID
      * @return The count of assets
      */
-    function getAssetCount(address user) external view returns (uint256) {
-        return userAssetCount[user];
+    function getAssetCount(uint256 portfolioId) external view returns (uint256) {
+        return portfolioAssetCount[portfolioId];
     }
 
     /**
-     * @dev Checks if a portfolio exists for a user
-     * @param user The user address
-     * @return True if portfolio exists, false otherwise
+     * @dev Returns the number of value checkpoints kept for an asset
+     * @param portfolioId The portfolio ID
+     * @param symbol The asset symbol
+     * @return The count, at most MAX_CHECKPOINTS
      */
-    function portfolioExists(address user) external view returns (bool) {
-        return portfolioExists[user];
+    function getCheckpointCount(uint256 portfolioId, string memory symbol) public view returns (uint256) {
+        uint256 written = checkpointsWritten[portfolioId][symbol];
+        return written < MAX_CHECKPOINTS ? written : MAX_CHECKPOINTS;
+    }
+
+    /**
+     * @dev Returns a page of an asset's value checkpoints, oldest first
+     * @param portfolioId The portfolio ID
+     * @param symbol The asset symbol
+     * @param offset Index of the first checkpoint, 0 being the oldest kept
+     * @param limit Maximum number of checkpoints returned
+     * @return The checkpoints; fewer than limit at the end of the history
+     */
+    function getValueCheckpoints(
+        uint256 portfolioId,
+        string memory symbol,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (ValueCheckpoint[] memory) {
+        require(portfolioAssets[portfolioId][symbol].exists, "Asset does not exist");
+        require(hasAccess(portfolioId, msg.sender, symbol), "Access denied");
+
+        uint256 count = getCheckpointCount(portfolioId, symbol);
+        if (offset >= count) {
+            return new ValueCheckpoint[](0);
+        }
+        uint256 size = count - offset < limit ? count - offset : limit;
+
+        // Once the buffer has wrapped, the oldest checkpoint sits at the next write position
+        uint256 written = checkpointsWritten[portfolioId][symbol];
+        uint256 oldest = written > MAX_CHECKPOINTS ? written % MAX_CHECKPOINTS : 0;
+
+        ValueCheckpoint[] memory page = new ValueCheckpoint[](size);
+        for (uint256 i = 0; i < size; i++) {
+            page[i] = valueCheckpoints[portfolioId][symbol][(oldest + offset + i) % MAX_CHECKPOINTS];
+        }
+        return page;
     }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-const { ethers } = require("hardhat");
+const { ethers, network } = require("hardhat");
 
 async function main() {
   console.log("🚀 Starting deployment of ConfidentialPortfolio contract...");
@@ -31,17 +31,18 @@ async function main() {
   // Test basic functionality
   console.log("🧪 Testing basic contract functionality...");
   try {
-    // Test portfolioExists function
-    const exists = await confidentialPortfolio.portfolioExists(deployer.address);
-    console.log("📊 Portfolio exists for deployer:", exists);
+    // Test getPortfolios function
+    const portfolios = await confidentialPortfolio.getPortfolios(deployer.address);
+    console.log("📊 Portfolios owned by deployer:", portfolios.length);
 
     console.log("🎉 Contract deployment and verification completed!");
     
     // Output contract info for frontend
     console.log("\n📋 Contract Information:");
     console.log("Contract Address:", contractAddress);
-    console.log("Network: Sepolia Testnet");
+    console.log("Network:", network.name, `(chainId ${network.config.chainId})`);
     console.log("Deployer:", deployer.address);
+    console.log("Add this address to the network registry in src/networks.ts (or the matching VITE_*_CONTRACT_ADDRESS env variable)");
     
     // Generate ABI for frontend
     console.log("\n🔧 Contract ABI (for frontend integration):");
@@ -1,73 +1,146 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { ethers } from 'ethers';
-
-// Real contract address - deployed on Sepolia
-const CONTRACT_ADDRESS = "0x9456163460c15Ffd74503F9Fc93603B4bac6309A";
-
-// Sepolia testnet configuration
-const SEPOLIA_CHAIN_ID = '0xaa36a7';
-const SEPOLIA_NETWORK = {
-  chainId: SEPOLIA_CHAIN_ID,
-  chainName: 'Sepolia Test Network',
-  rpcUrls: ['https://sepolia.infura.io/v3/', 'https://rpc.sepolia.org'],
-  nativeCurrency: {
-    name: 'ETH',
-    symbol: 'ETH',
-    decimals: 18
-  },
-  blockExplorerUrls: ['https://sepolia.etherscan.io/']
+import {
+  PortfolioClient,
+  AccountKey,
+  PortfolioInfo,
+  PortfolioKey,
+  PortfolioOperation,
+  Asset,
+  AssetChange,
+  AssetRecord,
+  AMOUNT_DECIMALS,
+  VALUE_DECIMALS,
+  MAX_BATCH_SIZE,
+  ContractRevertError,
+  StalePriceError,
+  describeError,
+  toPortfolioError,
+  computeValue,
+  fixedPointError,
+  formatFixedPoint,
+  parseFixedPoint,
+  deriveAccountKey,
+  getPortfolioKey,
+  encryptAmounts,
+  decryptAsset,
+  placeholderCiphertext,
+  sealAssetKey,
+  sealPortfolioKey,
+  Price
+} from './sdk';
+import {
+  NetworkConfig,
+  SUPPORTED_NETWORKS,
+  DEFAULT_NETWORK,
+  getNetwork,
+  getExplorerAddressUrl,
+  getExplorerTxUrl,
+  switchWalletNetwork
+} from './networks';
+import { PriceSourceId, createPriceSource, getPriceSourceOptions } from './prices';
+import { EIP1193Provider, WalletOption, watchWallets } from './wallets';
+import { FEE_TIERS, FeeOverrides, FeeQuote, FeeTier, estimateFeeTiers } from './fees';
+import { readWatchLink, updateWatchLink } from './watch';
+import { CatalogAsset, findCatalogAsset, getBundledCatalog, loadCatalog, saveCustomAssets } from './catalog';
+import {
+  ReplacementMode,
+  TransactionRecord,
+  buildReplacement,
+  loadTransactions,
+  saveTransaction
+} from './transactions';
+import ActivityTimeline from './components/ActivityTimeline';
+import BatchEditor, { BatchRow } from './components/BatchEditor';
+import ImportPanel from './components/ImportPanel';
+import ExportPanel from './components/ExportPanel';
+import TransactionHistory from './components/TransactionHistory';
+import AccountSwitcher from './components/AccountSwitcher';
+import FeePreview from './components/FeePreview';
+import SharingPanel from './components/SharingPanel';
+import SharedWithMe from './components/SharedWithMe';
+import WatchPortfolio from './components/WatchPortfolio';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import ValueHistoryChart from './components/ValueHistoryChart';
+import PortfolioSwitcher, { portfolioNameError } from './components/PortfolioSwitcher';
+import ConfirmDialog from './components/ConfirmDialog';
+import AssetCatalogPicker from './components/AssetCatalogPicker';
+
+// Remembers the network picked in the selector between visits
+const NETWORK_STORAGE_KEY = 'confidential-portfolio:network';
+// Remembers the price source, or 'manual' for typing values by hand
+const PRICE_SOURCE_STORAGE_KEY = 'confidential-portfolio:price-source';
+// Remembers the fee tier transactions are sent with
+const FEE_TIER_STORAGE_KEY = 'confidential-portfolio:fee-tier';
+const STALE_AFTER_STORAGE_KEY = 'confidential-portfolio:stale-after-days';
+// Remembers the portfolio last opened, per contract and account
+const PORTFOLIO_STORAGE_KEY = 'confidential-portfolio:portfolio';
+// Remembers the wallet (by EIP-6963 rdns) connected last, listed first in the picker
+const WALLET_STORAGE_KEY = 'confidential-portfolio:wallet';
+// Accounts connected before, most recent first
+const RECENT_ACCOUNTS_STORAGE_KEY = 'confidential-portfolio:recent-accounts';
+const MAX_RECENT_ACCOUNTS = 5;
+
+const portfolioStorageKey = (contractAddress: string, account: string) =>
+  `${PORTFOLIO_STORAGE_KEY}:${contractAddress.toLowerCase()}:${account.toLowerCase()}`;
+
+const loadRecentAccounts = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_ACCOUNTS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(address => ethers.isAddress(address)) : [];
+  } catch {
+    return [];
+  }
 };
 
-// Contract ABI for real blockchain interaction
-const CONTRACT_ABI = [
-  "function createPortfolio() external",
-  "function addAsset(string memory symbol, uint64 amount, uint64 value) external",
-  "function updateAsset(string memory symbol, uint64 newAmount, uint64 newValue) external",
-  "function removeAsset(string memory symbol) external",
-  "function getAssetSymbols(address user) external view returns (string[] memory)",
-  "function getEncryptedAssetAmount(address user, string memory symbol) external view returns (uint256)",
-  "function getEncryptedAssetValue(address user, string memory symbol) external view returns (uint256)",
-  "function getEncryptedTotalValue(address user) external view returns (uint256)",
-  "function portfolioExists(address user) external view returns (bool)",
-  "function getAssetLastUpdate(address user, string memory symbol) external view returns (uint256)",
-  "function getAssetCount(address user) external view returns (uint256)",
-  "event PortfolioCreated(address indexed user, uint256 timestamp)",
-  "event AssetAdded(address indexed user, string symbol, uint256 timestamp)",
-  "event AssetUpdated(address indexed user, string symbol, uint256 timestamp)",
-  "event AssetRemoved(address indexed user, string symbol, uint256 timestamp)"
-];
-
-// Preset asset options for user selection
-const ASSET_PRESETS = [
-  { symbol: 'BTC', name: 'Bitcoin' },
-  { symbol: 'ETH', name: 'Ethereum' },
-  { symbol: 'USDT', name: 'Tether' },
-  { symbol: 'BNB', name: 'Binance Coin' },
-  { symbol: 'ADA', name: 'Cardano' },
-  { symbol: 'SOL', name: 'Solana' },
-  { symbol: 'DOT', name: 'Polkadot' },
-  { symbol: 'LINK', name: 'Chainlink' },
-  { symbol: 'MATIC', name: 'Polygon' },
-  { symbol: 'AVAX', name: 'Avalanche' },
-  { symbol: 'UNI', name: 'Uniswap' },
-  { symbol: 'ATOM', name: 'Cosmos' }
-];
-
-interface Asset {
+// Revealed holdings are hidden again after this long without user activity
+const REVEAL_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Assets not updated for this many days are flagged in the analytics panel
+const DEFAULT_STALE_AFTER_DAYS = 30;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Destructive operation waiting for the user to type its confirmation phrase
+type PendingConfirmation =
+  | { type: 'removeAsset'; symbol: string }
+  | { type: 'closePortfolio'; portfolio: PortfolioInfo };
+
+// Asset as shown in the UI: "***" until the owner reveals it
+interface AssetView {
   symbol: string;
   amount: string;
   value: string;
   lastUpdate: Date;
 }
 
-interface TransactionStatus {
-  hash: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  confirmations: number;
-  gasUsed?: string;
-  gasPrice?: string;
-  description: string;
-}
+const HIDDEN = "***";
+
+const toHiddenView = (record: AssetRecord): AssetView => ({
+  ...record,
+  amount: HIDDEN, // Encrypted data - only owner can decrypt
+  value: HIDDEN
+});
+
+const toRevealedView = (asset: Asset): AssetView => ({
+  symbol: asset.symbol,
+  lastUpdate: asset.lastUpdate,
+  amount: formatFixedPoint(asset.amount, asset.decimals),
+  value: formatFixedPoint(asset.value, VALUE_DECIMALS, VALUE_DECIMALS)
+});
+
+// Status line for a portfolio transaction that didn't go through
+const failureMessage = (result?: TransactionRecord) =>
+  result?.status === 'cancelled' ? "🚫 Transaction cancelled" : "❌ Transaction failed";
+
+// Outcome fields of a mined transaction
+const receiptFields = async (receipt: ethers.TransactionReceipt): Promise<Partial<TransactionRecord>> => ({
+  status: receipt.status === 1 ? 'confirmed' : 'failed',
+  blockNumber: receipt.blockNumber,
+  confirmations: await receipt.confirmations(),
+  gasUsed: receipt.gasUsed.toString(),
+  effectiveGasPrice: receipt.gasPrice.toString(),
+  fee: receipt.fee.toString()
+});
 
 declare global {
   interface Window {
@@ -80,49 +153,136 @@ function App() {
   const [account, setAccount] = useState<string>('');
   const [balance, setBalance] = useState<string>('0');
   const [chainId, setChainId] = useState<string>('');
+  const [selectedChainId, setSelectedChainId] = useState<string>(() => {
+    const linked = readWatchLink()?.chainId;
+    if (linked) return linked;
+    const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+    return stored && getNetwork(stored) ? stored : DEFAULT_NETWORK.chainId;
+  });
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
-  const [hasPortfolio, setHasPortfolio] = useState<boolean>(false);
-  const [assets, setAssets] = useState<Asset[]>([]);
+  const [client, setClient] = useState<PortfolioClient | null>(null);
+  const [accountKey, setAccountKey] = useState<AccountKey | null>(null);
+  const [encryptionKey, setEncryptionKey] = useState<PortfolioKey | null>(null);
+  const [portfolios, setPortfolios] = useState<PortfolioInfo[]>([]);
+  const [portfolioId, setPortfolioId] = useState<number | null>(null);
+  const [newPortfolioName, setNewPortfolioName] = useState<string>('Main');
+  const [assets, setAssets] = useState<AssetView[]>([]);
+  const [revealed, setRevealed] = useState<boolean>(false);
+  const [revealedTotal, setRevealedTotal] = useState<string>('');
+  const [holdings, setHoldings] = useState<Asset[] | null>(null);
+  const [onChainTotal, setOnChainTotal] = useState<bigint | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [message, setMessage] = useState<string>('Connect your wallet to start managing your confidential portfolio!');
   const [networkStatus, setNetworkStatus] = useState<string>('Disconnected');
+  const [wallets, setWallets] = useState<WalletOption[]>([]);
+  const [wallet, setWallet] = useState<WalletOption | null>(null);
+  const [recentAccounts, setRecentAccounts] = useState<string[]>(loadRecentAccounts);
   
   // Transaction tracking
-  const [currentTransaction, setCurrentTransaction] = useState<TransactionStatus | null>(null);
-  const [transactionHistory, setTransactionHistory] = useState<TransactionStatus[]>([]);
+  const [currentTransaction, setCurrentTransaction] = useState<TransactionRecord | null>(null);
+  const [transactionHistory, setTransactionHistory] = useState<TransactionRecord[]>([]);
   
   // Form states
   const [showAddAsset, setShowAddAsset] = useState<boolean>(false);
-  const [selectedPreset, setSelectedPreset] = useState<string>('');
+  const [showBatchEditor, setShowBatchEditor] = useState<boolean>(false);
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const [showExport, setShowExport] = useState<boolean>(false);
+  const [showSharing, setShowSharing] = useState<boolean>(false);
+  const [showSharedWithMe, setShowSharedWithMe] = useState<boolean>(false);
+  const [showAnalytics, setShowAnalytics] = useState<boolean>(false);
+  const [staleAfterDays, setStaleAfterDays] = useState<number>(() =>
+    Number(localStorage.getItem(STALE_AFTER_STORAGE_KEY)) || DEFAULT_STALE_AFTER_DAYS
+  );
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null);
+  const [watchAddress, setWatchAddress] = useState<string | null>(() => readWatchLink()?.address ?? null);
+  const [watchInput, setWatchInput] = useState<string>('');
+  const [catalog, setCatalog] = useState<CatalogAsset[]>(getBundledCatalog);
   const [assetSymbol, setAssetSymbol] = useState<string>('');
   const [assetAmount, setAssetAmount] = useState<string>('');
   const [assetValue, setAssetValue] = useState<string>('');
-  const [estimatedGas, setEstimatedGas] = useState<string>('');
-  const [gasPrice, setGasPrice] = useState<string>('');
+  const [priceHint, setPriceHint] = useState<string>('');
+  const [priceSourceId, setPriceSourceId] = useState<string>(() =>
+    localStorage.getItem(PRICE_SOURCE_STORAGE_KEY) || ''
+  );
+  const [editingSymbol, setEditingSymbol] = useState<string>('');
+  const [editAmount, setEditAmount] = useState<string>('');
+  const [editValue, setEditValue] = useState<string>('');
+  const [editDecimals, setEditDecimals] = useState<number>(AMOUNT_DECIMALS);
+  const [estimatedGas, setEstimatedGas] = useState<bigint | null>(null);
+  const [feeQuotes, setFeeQuotes] = useState<Record<FeeTier, FeeQuote> | null>(null);
+  const [nativePrice, setNativePrice] = useState<Price | null>(null);
+  const [feeConfirmation, setFeeConfirmation] = useState<{ resolve: (tier: FeeTier | null) => void } | null>(null);
+  const [feeTier, setFeeTier] = useState<FeeTier>(() => {
+    const stored = localStorage.getItem(FEE_TIER_STORAGE_KEY) as FeeTier | null;
+    return stored && FEE_TIERS.includes(stored) ? stored : 'normal';
+  });
+
+  const currentPortfolio = portfolios.find(portfolio => portfolio.id === portfolioId) ?? null;
+  const hasPortfolio = currentPortfolio !== null;
+
+  // Scale an asset's amounts are encrypted with. Holdings keep the scale stored in their
+  // ciphertext (known here once revealed); new assets take the catalog's, or the default.
+  const amountDecimalsOf = (symbol: string) =>
+    holdings?.find(asset => asset.symbol === symbol)?.decimals ??
+    findCatalogAsset(catalog, symbol)?.decimals ??
+    AMOUNT_DECIMALS;
+  const assetDecimals = amountDecimalsOf(assetSymbol);
+
+  // Live validation of the add and edit forms; empty fields only disable the submit button
+  const assetAmountError = assetAmount ? fixedPointError(assetAmount, assetDecimals, 'Amount') : null;
+  const assetValueError = assetValue ? fixedPointError(assetValue, VALUE_DECIMALS, 'USD value') : null;
+  const editAmountError = editAmount ? fixedPointError(editAmount, editDecimals, 'Amount') : null;
+  const editValueError = editValue ? fixedPointError(editValue, VALUE_DECIMALS, 'USD value') : null;
+
+  // Network the app is targeting, and whether the wallet is on it
+  const network = getNetwork(selectedChainId) || DEFAULT_NETWORK;
+  const onSelectedNetwork = getNetwork(chainId)?.chainId === network.chainId;
+
+  // Price source for valuing holdings; defaults to the first one available on this network
+  const priceOptions = getPriceSourceOptions(network);
+  const activePriceSourceId: PriceSourceId | undefined = priceSourceId === 'manual'
+    ? undefined
+    : priceOptions.find(option => option.id === priceSourceId)?.id ?? priceOptions[0]?.id;
+  const priceSource = useMemo(
+    () => activePriceSourceId && provider ? createPriceSource(activePriceSourceId, network, provider) : null,
+    [activePriceSourceId, network, provider]
+  );
 
-  // Check if MetaMask is installed
-  const isMetaMaskInstalled = () => {
-    return typeof window.ethereum !== 'undefined';
-  };
+  // Name of the connected wallet for prompts
+  const walletName = wallet?.info.name ?? 'your wallet';
+
+  // Watchers for an earlier account can still report in; only show this session's transactions
+  const sessionHistory = useMemo(
+    () => transactionHistory.filter(tx => tx.account.toLowerCase() === account.toLowerCase() && tx.chainId === chainId),
+    [transactionHistory, account, chainId]
+  );
+
+  // Offer the wallet used last time first
+  const lastWalletRdns = localStorage.getItem(WALLET_STORAGE_KEY);
+  const sortedWallets = [...wallets].sort((a, b) =>
+    Number(b.info.rdns === lastWalletRdns) - Number(a.info.rdns === lastWalletRdns)
+  );
 
   // Get current network info
   const getNetworkInfo = useCallback(async () => {
-    if (!window.ethereum) return;
+    if (!wallet) return;
     
     try {
-      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+      const chainId = await wallet.provider.request({ method: 'eth_chainId' });
       setChainId(chainId);
       
-      if (chainId === SEPOLIA_CHAIN_ID) {
-        setNetworkStatus('Sepolia Testnet');
+      // Follow the wallet when it is already on a supported network
+      const walletNetwork = getNetwork(chainId);
+      if (walletNetwork) {
+        setSelectedChainId(walletNetwork.chainId);
+        setNetworkStatus(walletNetwork.chainName);
       } else {
         setNetworkStatus(`Wrong Network (${parseInt(chainId, 16)})`);
       }
     } catch (error) {
       console.error('Failed to get network info:', error);
     }
-  }, []);
+  }, [wallet]);
 
   // Get account balance
   const getBalance = useCallback(async (address: string) => {
@@ -136,134 +296,336 @@ function App() {
     }
   }, [provider]);
 
-  // Estimate gas for transactions
-  const estimateGasForOperation = useCallback(async (operation: string, params?: any[]) => {
-    if (!contract || !account) return;
+  // Estimate gas and fee tiers for an operation and show them in the fee preview
+  const estimateGasForOperation = useCallback(async (operation: PortfolioOperation): Promise<Record<FeeTier, FeeQuote> | undefined> => {
+    if (!client || !account || !provider) return;
 
     try {
-      let estimatedGas: bigint;
-      const currentGasPrice = await provider?.getFeeData();
-      
-      switch (operation) {
-        case 'createPortfolio':
-          estimatedGas = await contract.createPortfolio.estimateGas();
-          break;
-        case 'addAsset':
-          if (params) {
-            estimatedGas = await contract.addAsset.estimateGas(...params);
-          } else return;
-          break;
-        case 'removeAsset':
-          if (params) {
-            estimatedGas = await contract.removeAsset.estimateGas(...params);
-          } else return;
-          break;
-        default:
-          return;
+      const [gas, quotes, price] = await Promise.all([
+        client.estimateGas(operation),
+        estimateFeeTiers(provider),
+        priceSource?.getPrice(network.nativeCurrency.symbol).catch(() => null) ?? null
+      ]);
+
+      setEstimatedGas(gas);
+      setFeeQuotes(quotes);
+      setNativePrice(price);
+      return quotes;
+    } catch (error) {
+      console.error('Failed to estimate gas:', error);
+    }
+  }, [client, account, provider, priceSource, network]);
+
+  // Estimate an operation, then wait for the user to pick a fee tier and send it.
+  // Resolves to the chosen tier's overrides, undefined when estimation failed and
+  // the wallet sets the fees, or null when the user cancels.
+  const confirmFees = useCallback(async (operation: PortfolioOperation): Promise<FeeOverrides | undefined | null> => {
+    const quotes = await estimateGasForOperation(operation);
+    if (!quotes) return undefined;
+
+    const tier = await new Promise<FeeTier | null>(resolve => setFeeConfirmation({ resolve }));
+    setFeeConfirmation(null);
+    return tier ? quotes[tier].overrides : null;
+  }, [estimateGasForOperation]);
+
+  const selectFeeTier = (tier: FeeTier) => {
+    setFeeTier(tier);
+    localStorage.setItem(FEE_TIER_STORAGE_KEY, tier);
+  };
+
+  // Store a transaction record, merged into any earlier one, and show it in the history
+  const recordTransaction = useCallback((record: TransactionRecord) => {
+    setTransactionHistory(prev => {
+      const existing = prev.find(tx => tx.hash === record.hash);
+      const merged = existing ? { ...existing, ...record, submittedAt: existing.submittedAt } : record;
+      return [merged, ...prev.filter(tx => tx.hash !== record.hash)].sort((a, b) => b.submittedAt - a.submittedAt);
+    });
+    saveTransaction(record).catch(error => console.error('Failed to save transaction:', error));
+  }, []);
+
+  // Wait for a transaction to be mined and record how it ended. When another
+  // transaction takes its nonce, the result is the one that was mined instead:
+  // the replacement for a speed-up, or this one marked cancelled.
+  const watchTransaction = useCallback(async (record: TransactionRecord): Promise<TransactionRecord> => {
+    if (!provider) return record;
+
+    let current = record;
+    try {
+      const tx = await provider.getTransaction(record.hash);
+      if (tx && current.nonce === undefined) {
+        current = { ...current, nonce: tx.nonce };
+        recordTransaction(current);
       }
 
-      setEstimatedGas(estimatedGas.toString());
-      if (currentGasPrice?.gasPrice) {
-        setGasPrice(ethers.formatUnits(currentGasPrice.gasPrice, 'gwei'));
+      // Without a start block ethers can't notice a replacement and would wait forever
+      const watched = tx && current.startBlock !== undefined ? tx.replaceableTransaction(current.startBlock) : tx;
+      const receipt = watched ? await watched.wait() : await provider.getTransactionReceipt(record.hash);
+
+      if (receipt) {
+        current = { ...current, ...await receiptFields(receipt) };
+      } else if (current.nonce !== undefined && await provider.getTransactionCount(current.account) > current.nonce) {
+        // Gone from the node, but its nonce is used: something else was mined in its place
+        current = { ...current, status: 'replaced' };
+      } else {
+        current = { ...current, status: 'dropped' };
       }
     } catch (error) {
-      console.error('Failed to estimate gas:', error);
+      if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        const replacement: TransactionRecord = {
+          hash: error.replacement.hash,
+          account: current.account,
+          chainId: current.chainId,
+          description: `${error.cancelled ? 'Cancel' : 'Speed up'}: ${current.description}`,
+          status: 'pending',
+          submittedAt: Date.now(),
+          nonce: error.replacement.nonce,
+          replaces: current.hash,
+          ...await receiptFields(error.receipt)
+        };
+        recordTransaction(replacement);
+        recordTransaction({ ...current, status: error.cancelled ? 'cancelled' : 'replaced', replacedBy: replacement.hash });
+        return error.cancelled ? { ...current, status: 'cancelled', replacedBy: replacement.hash } : replacement;
+      }
+
+      // wait() rejects for reverted transactions; the receipt is on the error
+      const receipt = ethers.isError(error, 'CALL_EXCEPTION') ? error.receipt : null;
+      if (!receipt) {
+        console.error('Failed to track transaction:', error);
+      }
+      current = receipt
+        ? { ...current, ...await receiptFields(receipt) }
+        : { ...current, status: 'failed' };
     }
-  }, [contract, account, provider]);
 
-  // Track transaction status
-  const trackTransaction = useCallback(async (hash: string, description: string) => {
-    if (!provider) return;
+    recordTransaction(current);
+    return current;
+  }, [provider, recordTransaction]);
 
-    const newTransaction: TransactionStatus = {
+  // Track a transaction until it, or a replacement, is mined
+  const trackTransaction = useCallback(async (hash: string, description: string): Promise<TransactionRecord | undefined> => {
+    if (!provider || !account) return;
+
+    const newTransaction: TransactionRecord = {
       hash,
+      account,
+      chainId,
+      description,
       status: 'pending',
-      confirmations: 0,
-      description
+      submittedAt: Date.now(),
+      startBlock: await provider.getBlockNumber()
     };
 
     setCurrentTransaction(newTransaction);
-    setTransactionHistory(prev => [newTransaction, ...prev.slice(0, 4)]); // Keep last 5 transactions
+    recordTransaction(newTransaction);
+
+    const result = await watchTransaction(newTransaction);
+    setCurrentTransaction(result);
+
+    if (result.status === 'confirmed') {
+      setMessage(`✅ Transaction confirmed! Block: ${result.blockNumber}`);
+    } else {
+      setMessage(failureMessage(result));
+    }
+    return result;
+  }, [provider, account, chainId, recordTransaction, watchTransaction]);
+
+  // Speed up or cancel a pending transaction with a higher-fee replacement under the same nonce
+  const replaceTransaction = async (record: TransactionRecord, mode: ReplacementMode) => {
+    if (!provider || !account) {
+      setMessage("❌ Please connect wallet first");
+      return;
+    }
 
     try {
-      const tx = await provider.getTransaction(hash);
-      if (tx) {
-        const receipt = await tx.wait();
-        if (receipt) {
-          const updatedTransaction: TransactionStatus = {
-            ...newTransaction,
-            status: receipt.status === 1 ? 'confirmed' : 'failed',
-            confirmations: await receipt.confirmations(),
-            gasUsed: receipt.gasUsed.toString(),
-            gasPrice: receipt.gasPrice ? ethers.formatUnits(receipt.gasPrice, 'gwei') : undefined
-          };
-
-          setCurrentTransaction(updatedTransaction);
-          setTransactionHistory(prev => 
-            prev.map(tx => tx.hash === hash ? updatedTransaction : tx)
-          );
-
-          if (receipt.status === 1) {
-            setMessage(`✅ Transaction confirmed! Block: ${receipt.blockNumber}`);
-          } else {
-            setMessage(`❌ Transaction failed!`);
-          }
-        }
+      const original = await provider.getTransaction(record.hash);
+      if (!original || original.blockNumber !== null) {
+        setMessage("ℹ️ This transaction is no longer pending");
+        return;
       }
-    } catch (error) {
-      console.error('Failed to track transaction:', error);
-      const failedTransaction = { ...newTransaction, status: 'failed' as const };
-      setCurrentTransaction(failedTransaction);
-      setTransactionHistory(prev => 
-        prev.map(tx => tx.hash === hash ? failedTransaction : tx)
-      );
+
+      const request = buildReplacement(original, mode, await provider.getFeeData());
+      const startBlock = await provider.getBlockNumber();
+
+      setMessage(`⏳ Please confirm the ${mode === 'cancel' ? 'cancellation' : 'speed-up'} in ${walletName}...`);
+      const signer = await provider.getSigner();
+      const replacement = await signer.sendTransaction(request);
+
+      const replacementRecord: TransactionRecord = {
+        hash: replacement.hash,
+        account,
+        chainId,
+        description: `${mode === 'cancel' ? 'Cancel' : 'Speed up'}: ${record.description}`,
+        status: 'pending',
+        submittedAt: Date.now(),
+        nonce: replacement.nonce,
+        startBlock,
+        replaces: record.hash
+      };
+      recordTransaction(replacementRecord);
+      setMessage(`🔄 Replacement submitted: ${replacement.hash}`);
+
+      // The original's watcher settles the portfolio operation; this one keeps the history current
+      watchTransaction(replacementRecord);
+    } catch (err) {
+      console.error('Replace transaction failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to replace transaction. It may already be mined.')}`);
     }
-  }, [provider]);
+  };
+
+  // Load this account's history on this chain and resume tracking anything still pending
+  useEffect(() => {
+    if (!provider || !account || !chainId) return;
+
+    let cancelled = false;
+    loadTransactions(account, chainId)
+      .then(records => {
+        if (cancelled) return;
+        setTransactionHistory(records);
+
+        const pending = records.filter(tx => tx.status === 'pending');
+        if (pending.length > 0) {
+          setMessage(`🔄 Resuming ${pending.length} pending transaction${pending.length === 1 ? '' : 's'}...`);
+          pending.forEach(tx => watchTransaction(tx));
+        }
+      })
+      .catch(error => console.error('Failed to load transaction history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, account, chainId, watchTransaction]);
+
+  // Discover installed wallets; they may announce themselves after the page loads
+  useEffect(() => watchWallets(setWallets), []);
 
   // Handle account changes
   useEffect(() => {
-    if (window.ethereum) {
+    const ethereum = wallet?.provider;
+    if (ethereum?.on && ethereum.removeListener) {
       const handleAccountsChanged = (accounts: string[]) => {
         if (accounts.length === 0) {
           // User disconnected
+          clearSession();
           setAccount('');
-          setContract(null);
+          setClient(null);
           setProvider(null);
-          setHasPortfolio(false);
-          setAssets([]);
           setMessage('Wallet disconnected');
           setNetworkStatus('Disconnected');
-        } else if (accounts[0] !== account) {
-          // Account changed
-          window.location.reload();
+        } else if (accounts[0].toLowerCase() !== account.toLowerCase()) {
+          loadAccount(accounts[0], ethereum).catch(error => {
+            console.error('Failed to switch account:', error);
+            setMessage('❌ Failed to load the new account');
+          });
         }
       };
 
-      const handleChainChanged = (chainId: string) => {
+      const handleChainChanged = async (chainId: string) => {
         setChainId(chainId);
-        if (chainId !== SEPOLIA_CHAIN_ID) {
-          setMessage('⚠️ Please switch to Sepolia testnet');
+        setPortfolios([]);
+        setPortfolioId(null);
+        setAssets([]);
+
+        const walletNetwork = getNetwork(chainId);
+        if (!walletNetwork) {
+          setMessage('⚠️ Please switch to a supported network');
           setNetworkStatus(`Wrong Network (${parseInt(chainId, 16)})`);
-        } else {
-          setNetworkStatus('Sepolia Testnet');
-          if (account) {
-            checkPortfolioStatus();
+          return;
+        }
+
+        setSelectedChainId(walletNetwork.chainId);
+        setNetworkStatus(walletNetwork.chainName);
+        if (account) {
+          // The old provider is bound to the previous chain, so rebuild it
+          try {
+            const portfolioClient = await initClient(walletNetwork, ethereum, account);
+            await checkPortfolioStatus(portfolioClient, account);
+          } catch (error) {
+            console.error('Failed to reconnect after network change:', error);
+            setMessage(`❌ Failed to connect to ${walletNetwork.chainName}`);
           }
         }
       };
 
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
+      ethereum.on('accountsChanged', handleAccountsChanged);
+      ethereum.on('chainChanged', handleChainChanged);
 
       // Check initial state
       getNetworkInfo();
 
       return () => {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-        window.ethereum.removeListener('chainChanged', handleChainChanged);
+        ethereum.removeListener?.('accountsChanged', handleAccountsChanged);
+        ethereum.removeListener?.('chainChanged', handleChainChanged);
       };
     }
-  }, [account, getNetworkInfo]);
+  }, [account, wallet, getNetworkInfo]);
+
+  // Hide revealed holdings again after a period of inactivity
+  useEffect(() => {
+    if (!revealed) return;
+
+    let timeout = setTimeout(hideHoldings, REVEAL_IDLE_TIMEOUT_MS);
+    const resetTimer = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(hideHoldings, REVEAL_IDLE_TIMEOUT_MS);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [revealed]);
+
+  // Fill in the USD value from the holdings amount and the current price
+  useEffect(() => {
+    const symbol = assetSymbol.trim().toUpperCase();
+    if (!priceSource || !symbol || !assetAmount) {
+      setPriceHint('');
+      return;
+    }
+
+    let amountInt: bigint;
+    try {
+      amountInt = parseFixedPoint(assetAmount, assetDecimals);
+    } catch {
+      setPriceHint('');
+      return;
+    }
+
+    let cancelled = false;
+    priceSource.getPrice(symbol)
+      .then(price => {
+        if (cancelled) return;
+        if (!price) {
+          setPriceHint(`No ${priceSource.name} price for ${symbol}, enter the USD value manually`);
+          return;
+        }
+        setAssetValue(formatFixedPoint(computeValue(amountInt, price, assetDecimals), VALUE_DECIMALS));
+        setPriceHint(`💹 1 ${symbol} = $${formatFixedPoint(price.value, price.decimals)} via ${priceSource.name}`);
+      })
+      .catch(error => {
+        console.error('Failed to fetch price:', error);
+        if (cancelled) return;
+        setPriceHint(error instanceof StalePriceError
+          ? `⚠️ ${error.message} on ${priceSource.name}, enter the USD value manually`
+          : `⚠️ ${priceSource.name} price unavailable, enter the USD value manually`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [assetSymbol, assetAmount, assetDecimals, priceSource]);
+
+  // Pick up the remote token list, if one is configured, on top of the bundled catalog
+  useEffect(() => {
+    let cancelled = false;
+    loadCatalog().then(loaded => {
+      if (!cancelled) setCatalog(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Update balance periodically
   useEffect(() => {
@@ -274,108 +636,204 @@ function App() {
     }
   }, [account, provider, getBalance]);
 
-  // Connect to MetaMask wallet
-  const connectWallet = async () => {
+  // Connect to the wallet picked in the wallet list
+  const connectWallet = async (option: WalletOption) => {
+    const ethereum = option.provider;
     try {
-      if (!isMetaMaskInstalled()) {
-        setMessage("❌ MetaMask is not installed. Please install MetaMask to continue.");
-        window.open('https://metamask.io/download/', '_blank');
-        return;
-      }
-
       setLoading(true);
-      setMessage("🔄 Connecting to MetaMask...");
+      setMessage(`🔄 Connecting to ${option.info.name}...`);
 
       // Request account access
-      const accounts = await window.ethereum.request({
+      const accounts = await ethereum.request({
         method: 'eth_requestAccounts'
       });
 
       if (accounts.length === 0) {
-        setMessage("❌ No accounts found. Please unlock MetaMask.");
+        setMessage(`❌ No accounts found. Please unlock ${option.info.name}.`);
         return;
       }
 
-      // Check and switch to Sepolia if needed
-      const currentChainId = await window.ethereum.request({ method: 'eth_chainId' });
-      if (currentChainId !== SEPOLIA_CHAIN_ID) {
-        setMessage("🔄 Switching to Sepolia testnet...");
-        await switchToSepolia();
+      // Check and switch to the selected network if needed
+      const currentChainId = await ethereum.request({ method: 'eth_chainId' });
+      if (getNetwork(currentChainId)?.chainId !== network.chainId) {
+        setMessage(`🔄 Switching to ${network.chainName}...`);
+        await switchWalletNetwork(ethereum, network);
       }
 
-      // Initialize provider and contract
-      const browserProvider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await browserProvider.getSigner();
-      const contractInstance = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      setWallet(option);
+      localStorage.setItem(WALLET_STORAGE_KEY, option.info.rdns);
+      setChainId(network.chainId);
+      await loadAccount(accounts[0], ethereum);
 
-      setProvider(browserProvider);
-      setAccount(accounts[0]);
-      setContract(contractInstance);
-      setNetworkStatus("Sepolia Testnet");
-      
-      // Get balance
-      await getBalance(accounts[0]);
-      
-      setMessage(`Connected to Sepolia! ✅ ${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}`);
+    } catch (error) {
+      console.error('Wallet connection failed:', error);
+      setMessage(`❌ ${describeError(error, 'Failed to connect wallet. Please try again.')}`);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Check portfolio status
-      await checkPortfolioStatus(contractInstance, accounts[0]);
+  // Create provider, signer and portfolio client for a network the wallet is on
+  const initClient = async (targetNetwork: NetworkConfig, ethereum: EIP1193Provider, address?: string) => {
+    const browserProvider = new ethers.BrowserProvider(ethereum);
+    const signer = await browserProvider.getSigner(address);
+    const portfolioClient = new PortfolioClient(targetNetwork.contractAddress, signer);
 
-    } catch (error: any) {
-      console.error('Wallet connection failed:', error);
-      if (error.code === 4001) {
-        setMessage("❌ Connection rejected by user");
-      } else if (error.code === -32002) {
-        setMessage("⏳ MetaMask is already processing a connection request");
-      } else {
-        setMessage("❌ Failed to connect wallet. Please try again.");
+    setProvider(browserProvider);
+    setClient(portfolioClient);
+    setNetworkStatus(targetNetwork.chainName);
+    return portfolioClient;
+  };
+
+  // Drop everything tied to the current account: its key, decrypted values and holdings.
+  // Form input and transactions still being tracked are kept.
+  const clearSession = () => {
+    hideHoldings();
+    setConfirmation(null);
+    setAssets([]);
+    setPortfolios([]);
+    setPortfolioId(null);
+    setEditingSymbol('');
+    setEditAmount('');
+    setEditValue('');
+    setEstimatedGas(null);
+  };
+
+  // Make an account the active one without reloading: new signer and client, then its portfolio
+  const loadAccount = async (address: string, ethereum: EIP1193Provider) => {
+    clearSession();
+
+    // Ask the wallet for its chain rather than trusting `network`: wallet event
+    // handlers keep the value from the render that registered them
+    const walletChainId: string = await ethereum.request({ method: 'eth_chainId' });
+    const walletNetwork = getNetwork(walletChainId);
+    if (!walletNetwork) {
+      setAccount(address);
+      setClient(null);
+      setChainId(walletChainId);
+      setNetworkStatus(`Wrong Network (${parseInt(walletChainId, 16)})`);
+      setMessage('⚠️ Please switch to a supported network');
+      return;
+    }
+
+    const portfolioClient = await initClient(walletNetwork, ethereum, address);
+    setAccount(address);
+    setRecentAccounts(prev => {
+      const next = [address, ...prev.filter(a => a.toLowerCase() !== address.toLowerCase())].slice(0, MAX_RECENT_ACCOUNTS);
+      localStorage.setItem(RECENT_ACCOUNTS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+
+    setMessage(`Connected to ${walletNetwork.chainName}! ✅ ${address.slice(0, 6)}...${address.slice(-4)}`);
+    await checkPortfolioStatus(portfolioClient, address);
+  };
+
+  // Switch to a recently used account; the wallet is asked to grant it if it isn't already
+  const switchAccount = async (address: string) => {
+    if (!wallet) return;
+    const ethereum = wallet.provider;
+    const isAvailable = (accounts: string[]) => accounts.some(a => a.toLowerCase() === address.toLowerCase());
+
+    try {
+      setLoading(true);
+      let accounts: string[] = await ethereum.request({ method: 'eth_accounts' });
+      if (!isAvailable(accounts)) {
+        setMessage(`🔄 Select ${address.slice(0, 6)}...${address.slice(-4)} in ${walletName}...`);
+        await ethereum.request({ method: 'wallet_requestPermissions', params: [{ eth_accounts: {} }] });
+        accounts = await ethereum.request({ method: 'eth_accounts' });
       }
+
+      if (!isAvailable(accounts)) {
+        setMessage(`❌ ${address.slice(0, 6)}...${address.slice(-4)} is not available in ${walletName}`);
+        return;
+      }
+      await loadAccount(address, ethereum);
+    } catch (error) {
+      console.error('Failed to switch account:', error);
+      setMessage(`❌ ${describeError(error, 'Failed to switch account')}`);
     } finally {
       setLoading(false);
     }
   };
 
-  // Switch to Sepolia testnet
-  const switchToSepolia = async () => {
+  const forgetAccount = (address: string) => {
+    setRecentAccounts(prev => {
+      const next = prev.filter(a => a.toLowerCase() !== address.toLowerCase());
+      localStorage.setItem(RECENT_ACCOUNTS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // Switch the wallet to the selected network
+  const switchNetwork = async (targetNetwork: NetworkConfig = network) => {
+    if (!wallet) return;
     try {
-      await window.ethereum.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: SEPOLIA_CHAIN_ID }],
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        // Network not added, add it
-        try {
-          await window.ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [SEPOLIA_NETWORK]
-          });
-        } catch (addError) {
-          console.error('Failed to add Sepolia network:', addError);
-          throw new Error('Failed to add Sepolia network');
-        }
-      } else {
-        console.error('Failed to switch to Sepolia:', switchError);
-        throw switchError;
-      }
+      setLoading(true);
+      setMessage(`🔄 Switching to ${targetNetwork.chainName}...`);
+      await switchWalletNetwork(wallet.provider, targetNetwork);
+    } catch (error) {
+      console.error(`Failed to switch to ${targetNetwork.chainName}:`, error);
+      setMessage(`❌ ${describeError(error, `Failed to switch to ${targetNetwork.chainName}`)}`);
+    } finally {
+      setLoading(false);
     }
   };
 
-  // Check if user has a portfolio
-  const checkPortfolioStatus = async (contractInstance?: ethers.Contract, userAccount?: string) => {
+  // Pick a network in the selector; a connected wallet is asked to follow
+  const selectNetwork = async (targetChainId: string) => {
+    const targetNetwork = getNetwork(targetChainId);
+    if (!targetNetwork) return;
+
+    setSelectedChainId(targetNetwork.chainId);
+    localStorage.setItem(NETWORK_STORAGE_KEY, targetNetwork.chainId);
+
+    if (account && getNetwork(chainId)?.chainId !== targetNetwork.chainId) {
+      await switchNetwork(targetNetwork);
+    }
+  };
+
+  const selectStaleAfter = (days: number) => {
+    setStaleAfterDays(days);
+    localStorage.setItem(STALE_AFTER_STORAGE_KEY, String(days));
+  };
+
+  // Open any address read-only; the URL is kept in sync so the view can be shared
+  const watchPortfolio = () => {
+    const address = watchInput.trim();
+    if (!ethers.isAddress(address)) {
+      setMessage("❌ Please enter a valid address to watch");
+      return;
+    }
+    setWatchAddress(ethers.getAddress(address));
+    setWatchInput('');
+  };
+
+  useEffect(() => {
+    updateWatchLink(watchAddress ? { address: watchAddress, chainId: network.chainId } : null);
+  }, [watchAddress, network.chainId]);
+
+  // Load the user's portfolios and open one: `select`, else the one opened last time, else the oldest
+  const checkPortfolioStatus = async (portfolioClient?: PortfolioClient, userAccount?: string, select?: number | 'newest') => {
     try {
-      const contractToUse = contractInstance || contract;
+      const clientToUse = portfolioClient || client;
       const accountToUse = userAccount || account;
       
-      if (!contractToUse || !accountToUse) return;
-
-      const portfolioExists = await contractToUse.portfolioExists(accountToUse);
-      setHasPortfolio(portfolioExists);
-
-      if (portfolioExists) {
-        await loadAssets(contractToUse, accountToUse);
-        setMessage("📊 Portfolio loaded successfully!");
+      if (!clientToUse || !accountToUse) return;
+
+      const owned = await clientToUse.getPortfolios(accountToUse);
+      const storageKey = portfolioStorageKey(clientToUse.address, accountToUse);
+      const remembered = Number(localStorage.getItem(storageKey));
+      const preferred = select === 'newest' ? owned[owned.length - 1]?.id : select ?? remembered;
+      const selected = owned.find(portfolio => portfolio.id === preferred) ?? owned[0];
+      setPortfolios(owned);
+
+      if (selected) {
+        setPortfolioId(selected.id);
+        localStorage.setItem(storageKey, String(selected.id));
+        await loadAssets(clientToUse, selected.id);
+        setMessage(`📊 Portfolio "${selected.name}" loaded successfully!`);
       } else {
+        setPortfolioId(null);
         setMessage("🚀 Ready to create your confidential portfolio!");
       }
     } catch (error) {
@@ -384,105 +842,335 @@ function App() {
     }
   };
 
-  // Load user's assets from blockchain
-  const loadAssets = async (contractInstance: ethers.Contract, userAccount: string) => {
+  // Open another of the account's portfolios; its holdings start hidden again
+  const selectPortfolio = async (id: number) => {
+    if (!client || !account) return;
+
+    hideHoldings();
+    cancelEditAsset();
+    setEstimatedGas(null);
+    setPortfolioId(id);
+    localStorage.setItem(portfolioStorageKey(client.address, account), String(id));
+    await loadAssets(client, id);
+  };
+
+  // Load a portfolio's assets from blockchain
+  const loadAssets = async (portfolioClient: PortfolioClient, id: number) => {
     try {
-      const symbols = await contractInstance.getAssetSymbols(userAccount);
-      const assetCount = await contractInstance.getAssetCount(userAccount);
-      const loadedAssets: Asset[] = [];
-
-      for (const symbol of symbols) {
-        const lastUpdate = await contractInstance.getAssetLastUpdate(userAccount, symbol);
-        loadedAssets.push({
-          symbol,
-          amount: "***", // Encrypted data - only owner can decrypt
-          value: "***", // Encrypted data - only owner can decrypt
-          lastUpdate: new Date(Number(lastUpdate) * 1000)
-        });
+      // Keep holdings visible across reloads while reveal mode is on
+      if (revealed && encryptionKey?.portfolioId === id) {
+        await decryptHoldings(portfolioClient, id, encryptionKey);
+        return;
       }
 
-      setAssets(loadedAssets);
-      setMessage(`📊 Portfolio loaded: ${assetCount.toString()} assets`);
+      const records = await portfolioClient.getAssetRecords(id);
+      setAssets(records.map(toHiddenView));
+      setMessage(`📊 Portfolio loaded: ${records.length} assets`);
     } catch (error) {
       console.error('Failed to load assets:', error);
       setMessage("❌ Failed to load portfolio assets");
     }
   };
 
-  // Create a new portfolio (real blockchain transaction)
-  const createPortfolio = async () => {
+  // Decrypt every asset's amount and value and show them with the total.
+  // Both are read at the same block so the contract's total can be checked against the assets.
+  const decryptHoldings = async (portfolioClient: PortfolioClient, id: number, key: PortfolioKey) => {
+    const blockTag = await portfolioClient.getBlockNumber();
+    const [decryptedAssets, totalInt] = await Promise.all([
+      portfolioClient.getAssets(id, key, blockTag),
+      portfolioClient.getTotalValue(id, key, blockTag)
+    ]);
+
+    setAssets(decryptedAssets.map(toRevealedView));
+    setHoldings(decryptedAssets);
+    setOnChainTotal(totalInt);
+    setRevealedTotal(formatFixedPoint(totalInt, VALUE_DECIMALS, VALUE_DECIMALS));
+    setRevealed(true);
+  };
+
+  // Reveal the owner's holdings by decrypting them locally
+  const revealHoldings = async () => {
+    if (!client || !account || portfolioId === null) {
+      setMessage("❌ Please connect wallet first");
+      return;
+    }
+
     try {
-      if (!contract || !account) {
+      setLoading(true);
+      const key = await getEncryptionKey();
+
+      setMessage("🔓 Decrypting holdings locally...");
+      await decryptHoldings(client, portfolioId, key);
+      setMessage("👁️ Holdings revealed. They will hide again after 5 minutes of inactivity.");
+    } catch (err) {
+      console.error('Reveal holdings failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to decrypt holdings')}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Hide revealed holdings and forget the encryption keys
+  const hideHoldings = () => {
+    setRevealed(false);
+    setRevealedTotal('');
+    setHoldings(null);
+    setOnChainTotal(null);
+    setAccountKey(null);
+    setEncryptionKey(null);
+    setAssets(prev => prev.map(toHiddenView));
+  };
+
+  // Create a new named portfolio and open it (real blockchain transaction)
+  const createPortfolio = async (name: string): Promise<boolean> => {
+    try {
+      if (!client || !account) {
         setMessage("❌ Please connect wallet first");
-        return;
+        return false;
       }
 
-      if (chainId !== SEPOLIA_CHAIN_ID) {
-        setMessage("❌ Please switch to Sepolia testnet");
-        return;
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
+        return false;
+      }
+
+      const nameError = portfolioNameError(name);
+      if (nameError) {
+        setMessage(`❌ ${nameError}`);
+        return false;
       }
 
       const balanceWei = ethers.parseEther(balance);
       if (balanceWei === BigInt(0)) {
-        setMessage("❌ Insufficient ETH balance. Please fund your wallet with Sepolia ETH.");
-        return;
+        setMessage(`❌ Insufficient ETH balance. Please fund your wallet with ${network.chainName} ETH.`);
+        return false;
       }
 
       setLoading(true);
       setMessage("🔄 Estimating gas for portfolio creation...");
 
-      // Estimate gas
-      await estimateGasForOperation('createPortfolio');
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'createPortfolio', name });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return false;
+      }
 
-      setMessage("⏳ Please confirm the transaction in MetaMask...");
+      setMessage(`⏳ Please confirm the transaction in ${walletName}...`);
 
       // Execute transaction
-      const tx = await contract.createPortfolio();
+      const tx = await client.createPortfolio(name, overrides);
       setMessage(`🔄 Transaction submitted: ${tx.hash}`);
 
-      // Track transaction
-      await trackTransaction(tx.hash, "Create Portfolio");
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Create Portfolio: ${name}`);
 
-      // Wait for confirmation
-      const receipt = await tx.wait();
+      if (result?.status !== 'confirmed') {
+        setMessage(failureMessage(result));
+        return false;
+      }
+      hideHoldings();
+      await checkPortfolioStatus(client, account, 'newest');
+      setMessage(`🎉 Portfolio "${name}" created successfully!`);
+      await getBalance(account); // Update balance after transaction
+      return true;
+
+    } catch (err) {
+      console.error('Create portfolio failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to create portfolio. Please try again.')}`);
+      return false;
+    } finally {
+      setLoading(false);
+      setCurrentTransaction(null);
+    }
+  };
 
-      if (receipt.status === 1) {
-        setHasPortfolio(true);
-        setMessage("🎉 Portfolio created successfully!");
-        await checkPortfolioStatus();
-        await getBalance(account); // Update balance after transaction
-      } else {
-        setMessage("❌ Transaction failed");
+  // Rename one of the account's portfolios (real blockchain transaction)
+  const renamePortfolio = async (id: number, name: string): Promise<boolean> => {
+    try {
+      if (!client || !account) {
+        setMessage("❌ Please connect wallet first");
+        return false;
       }
 
-    } catch (error: any) {
-      console.error('Create portfolio failed:', error);
-      if (error.code === 4001) {
-        setMessage("❌ Transaction rejected by user");
-      } else if (error.code === 'INSUFFICIENT_FUNDS') {
-        setMessage("❌ Insufficient funds for gas");
-      } else {
-        setMessage("❌ Failed to create portfolio. Please try again.");
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
+        return false;
+      }
+
+      const nameError = portfolioNameError(name);
+      if (nameError) {
+        setMessage(`❌ ${nameError}`);
+        return false;
+      }
+
+      setLoading(true);
+      setMessage("🔄 Estimating gas for renaming portfolio...");
+
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'renamePortfolio', portfolioId: id, name });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return false;
+      }
+
+      setMessage(`⏳ Renaming portfolio to "${name}". Please confirm in ${walletName}...`);
+
+      // Execute transaction
+      const tx = await client.renamePortfolio(id, name, overrides);
+      setMessage(`🔄 Transaction submitted: ${tx.hash}`);
+
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Rename Portfolio: ${name}`);
+
+      if (result?.status !== 'confirmed') {
+        setMessage(failureMessage(result));
+        return false;
+      }
+      setPortfolios(await client.getPortfolios(account));
+      setMessage(`🏷️ Portfolio renamed to "${name}"`);
+      await getBalance(account); // Update balance after transaction
+      return true;
+
+    } catch (err) {
+      console.error('Rename portfolio failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to rename portfolio. Please try again.')}`);
+      return false;
+    } finally {
+      setLoading(false);
+      setCurrentTransaction(null);
+    }
+  };
+
+  // Close a portfolio, deleting all of its assets and grants (real blockchain transaction); confirmed in the dialog first
+  const closePortfolio = async (portfolio: PortfolioInfo): Promise<boolean> => {
+    try {
+      if (!client || !account) {
+        setMessage("❌ Please connect wallet first");
+        return false;
+      }
+
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
+        return false;
+      }
+
+      setLoading(true);
+      setMessage("🔄 Estimating gas for closing portfolio...");
+
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'closePortfolio', portfolioId: portfolio.id });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return false;
       }
+
+      setMessage(`⏳ Closing "${portfolio.name}" and deleting ${portfolio.assetCount} assets. Please confirm in ${walletName}...`);
+
+      // Execute transaction
+      const tx = await client.closePortfolio(portfolio.id, overrides);
+      setMessage(`🔄 Transaction submitted: ${tx.hash}`);
+
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Close Portfolio: ${portfolio.name}`);
+
+      if (result?.status !== 'confirmed') {
+        setMessage(failureMessage(result));
+        return false;
+      }
+      hideHoldings();
+      cancelEditAsset();
+      setShowExport(false);
+      setShowSharing(false);
+      setShowAnalytics(false);
+      await checkPortfolioStatus(client, account);
+      setMessage(`🔥 Portfolio "${portfolio.name}" closed and its holdings wiped`);
+      await getBalance(account); // Update balance after transaction
+      return true;
+
+    } catch (err) {
+      console.error('Close portfolio failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to close portfolio. Please try again.')}`);
+      return false;
     } finally {
       setLoading(false);
       setCurrentTransaction(null);
     }
   };
 
-  // Select asset preset
-  const selectAssetPreset = (preset: typeof ASSET_PRESETS[0]) => {
-    setSelectedPreset(preset.symbol);
-    setAssetSymbol(preset.symbol);
+  // Run the operation the user just confirmed
+  const confirmPending = () => {
+    if (!confirmation) return;
+    setConfirmation(null);
+    if (confirmation.type === 'removeAsset') {
+      removeAsset(confirmation.symbol);
+    } else {
+      closePortfolio(confirmation.portfolio);
+    }
+  };
+
+  // Get the account's root key, asking for a signature the first time
+  const getAccountKey = async (): Promise<AccountKey> => {
+    if (accountKey && account && accountKey.account.toLowerCase() === account.toLowerCase()) {
+      return accountKey;
+    }
+    if (!provider) {
+      throw new Error('Wallet not connected');
+    }
+
+    setMessage(`✍️ Please sign the message in ${walletName} to unlock your encryption key...`);
+    const key = await deriveAccountKey(await provider.getSigner());
+    setAccountKey(key);
+    return key;
+  };
+
+  // Get the open portfolio's encryption key; one signature covers all of the account's portfolios
+  const getEncryptionKey = async (): Promise<PortfolioKey> => {
+    if (portfolioId === null) {
+      throw new Error('No portfolio selected');
+    }
+    if (
+      encryptionKey && account && encryptionKey.portfolioId === portfolioId &&
+      encryptionKey.account.toLowerCase() === account.toLowerCase()
+    ) {
+      return encryptionKey;
+    }
+
+    const key = await getPortfolioKey(await getAccountKey(), portfolioId);
+    setEncryptionKey(key);
+    return key;
+  };
+
+  // Pick an asset from the catalog
+  const selectCatalogAsset = (asset: CatalogAsset) => {
+    setAssetSymbol(asset.symbol);
     
-    // Estimate gas for adding this asset
-    if (assetAmount && assetValue) {
-      const amountInt = Math.floor(parseFloat(assetAmount) * 1000000);
-      const valueInt = Math.floor(parseFloat(assetValue) * 100);
-      estimateGasForOperation('addAsset', [preset.symbol, amountInt, valueInt]);
+    // Estimate gas for adding this asset; ciphertexts have a fixed size,
+    // so placeholders give the same estimate without asking for a signature
+    if (assetAmount && assetValue && portfolioId !== null) {
+      estimateGasForOperation({
+        type: 'addAsset',
+        portfolioId,
+        symbol: asset.symbol,
+        amounts: { encryptedAmount: placeholderCiphertext(), encryptedValue: placeholderCiphertext() }
+      });
     }
   };
 
+  // Custom assets are kept in this browser only
+  const addCustomAsset = (asset: CatalogAsset) => {
+    const next = [...catalog.filter(entry => entry.symbol !== asset.symbol), { ...asset, custom: true }];
+    setCatalog(next);
+    saveCustomAssets(next);
+    setAssetSymbol(asset.symbol);
+  };
+
+  const removeCustomAsset = async (symbol: string) => {
+    saveCustomAssets(catalog.filter(asset => asset.symbol !== symbol));
+    // A custom asset may have shadowed a list entry with the same symbol
+    setCatalog(await loadCatalog());
+  };
+
   // Add asset to portfolio (real blockchain transaction)
   const addAsset = async () => {
     try {
@@ -495,142 +1183,569 @@ function App() {
         return;
       }
 
-      if (!contract || !account) {
+      if (!client || !account || portfolioId === null) {
         setMessage("❌ Please connect wallet first");
         return;
       }
 
-      if (chainId !== SEPOLIA_CHAIN_ID) {
-        setMessage("❌ Please switch to Sepolia testnet");
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
         return;
       }
 
-      const amountFloat = parseFloat(amount);
-      const valueFloat = parseFloat(value);
-
-      if (amountFloat <= 0 || valueFloat <= 0) {
-        setMessage("❌ Amount and value must be greater than 0");
+      const decimals = amountDecimalsOf(symbol);
+      const inputError = fixedPointError(amount, decimals, 'Amount') ?? fixedPointError(value, VALUE_DECIMALS, 'USD value');
+      if (inputError) {
+        setMessage(`❌ ${inputError}`);
         return;
       }
 
       setLoading(true);
-      setMessage("🔄 Estimating gas for adding asset...");
 
       // Convert to integers with appropriate decimals
-      const amountInt = Math.floor(amountFloat * 1000000); // 6 decimals for amount
-      const valueInt = Math.floor(valueFloat * 100); // 2 decimals for USD value
+      const amountInt = parseFixedPoint(amount, decimals);
+      const valueInt = parseFixedPoint(value, VALUE_DECIMALS);
 
-      // Estimate gas
-      await estimateGasForOperation('addAsset', [symbol, amountInt, valueInt]);
+      // Encrypt locally so only ciphertext reaches the chain
+      const key = await getEncryptionKey();
+      const amounts = await encryptAmounts(key, symbol, amountInt, valueInt, decimals);
 
-      setMessage(`⏳ Adding ${symbol} to portfolio. Please confirm in MetaMask...`);
+      setMessage("🔄 Estimating gas for adding asset...");
+
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'addAsset', portfolioId, symbol, amounts });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return;
+      }
+
+      setMessage(`⏳ Adding ${symbol} to portfolio. Please confirm in ${walletName}...`);
 
       // Execute transaction
-      const tx = await contract.addAsset(symbol, amountInt, valueInt);
+      const tx = await client.addAsset(portfolioId, symbol, amounts, overrides);
       setMessage(`🔄 Transaction submitted: ${tx.hash}`);
 
-      // Track transaction
-      await trackTransaction(tx.hash, `Add Asset: ${symbol}`);
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Add Asset: ${symbol}`);
 
-      // Wait for confirmation
-      const receipt = await tx.wait();
-
-      if (receipt.status === 1) {
+      if (result?.status === 'confirmed') {
         setMessage(`🔐 Asset ${symbol} added successfully!`);
         
         // Reset form and reload assets
         setAssetSymbol('');
         setAssetAmount('');
         setAssetValue('');
-        setSelectedPreset('');
         setShowAddAsset(false);
         
-        await loadAssets(contract, account);
+        await loadAssets(client, portfolioId);
         await getBalance(account); // Update balance after transaction
       } else {
-        setMessage("❌ Transaction failed");
+        setMessage(failureMessage(result));
       }
 
-    } catch (error: any) {
-      console.error('Add asset failed:', error);
-      if (error.code === 4001) {
-        setMessage("❌ Transaction rejected by user");
-      } else if (error.code === 'INSUFFICIENT_FUNDS') {
-        setMessage("❌ Insufficient funds for gas");
-      } else if (error.reason) {
-        setMessage(`❌ ${error.reason}`);
-      } else {
-        setMessage("❌ Failed to add asset. Please try again.");
-      }
+    } catch (err) {
+      console.error('Add asset failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to add asset. Please try again.')}`);
     } finally {
       setLoading(false);
       setCurrentTransaction(null);
     }
   };
 
-  // Remove asset from portfolio (real blockchain transaction)
-  const removeAsset = async (symbol: string) => {
+  // Open the edit form for an asset, pre-filled with its current values
+  const startEditAsset = async (asset: AssetView) => {
+    if (!client || !account || portfolioId === null) {
+      setMessage("❌ Please connect wallet first");
+      return;
+    }
+
+    setEditingSymbol(asset.symbol);
+    setEditAmount('');
+    setEditValue('');
+
     try {
-      if (!window.confirm(`⚠️ Are you sure you want to remove ${symbol} from your portfolio?\n\nThis action cannot be undone and will require a blockchain transaction.`)) {
+      const encrypted = await client.getEncryptedAsset(portfolioId, asset.symbol);
+      const current = await decryptAsset(encrypted, await getEncryptionKey());
+
+      setEditDecimals(current.decimals);
+      setEditAmount(formatFixedPoint(current.amount, current.decimals));
+      setEditValue(formatFixedPoint(current.value, VALUE_DECIMALS));
+      await estimateGasForOperation({ type: 'updateAsset', portfolioId, symbol: asset.symbol, amounts: encrypted });
+    } catch (error) {
+      console.error('Failed to load current asset values:', error);
+      setMessage(`⚠️ Could not load current values for ${asset.symbol}`);
+    }
+  };
+
+  // Close the edit form without sending a transaction
+  const cancelEditAsset = () => {
+    setEditingSymbol('');
+    setEditAmount('');
+    setEditValue('');
+  };
+
+  // Update an existing asset in place (real blockchain transaction)
+  const updateAsset = async () => {
+    try {
+      const symbol = editingSymbol;
+
+      if (!symbol || !editAmount || !editValue) {
+        setMessage("❌ Please fill all fields!");
+        return;
+      }
+
+      if (!client || !account || portfolioId === null) {
+        setMessage("❌ Please connect wallet first");
+        return;
+      }
+
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
+        return;
+      }
+
+      const decimals = editDecimals;
+      const inputError = fixedPointError(editAmount, decimals, 'Amount') ?? fixedPointError(editValue, VALUE_DECIMALS, 'USD value');
+      if (inputError) {
+        setMessage(`❌ ${inputError}`);
         return;
       }
 
-      if (!contract || !account) {
+      setLoading(true);
+
+      // Convert to integers with appropriate decimals
+      const amountInt = parseFixedPoint(editAmount, decimals);
+      const valueInt = parseFixedPoint(editValue, VALUE_DECIMALS);
+
+      // Encrypt locally so only ciphertext reaches the chain
+      const key = await getEncryptionKey();
+      const amounts = await encryptAmounts(key, symbol, amountInt, valueInt, decimals);
+
+      setMessage("🔄 Estimating gas for updating asset...");
+
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'updateAsset', portfolioId, symbol, amounts });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return;
+      }
+
+      setMessage(`⏳ Updating ${symbol}. Please confirm in ${walletName}...`);
+
+      // Execute transaction
+      const tx = await client.updateAsset(portfolioId, symbol, amounts, overrides);
+      setMessage(`🔄 Transaction submitted: ${tx.hash}`);
+
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Update Asset: ${symbol}`);
+
+      if (result?.status === 'confirmed') {
+        setMessage(`✏️ Asset ${symbol} updated successfully!`);
+        cancelEditAsset();
+
+        await loadAssets(client, portfolioId);
+        await getBalance(account); // Update balance after transaction
+      } else {
+        setMessage(failureMessage(result));
+      }
+
+    } catch (err) {
+      console.error('Update asset failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to update asset. Please try again.')}`);
+    } finally {
+      setLoading(false);
+      setCurrentTransaction(null);
+    }
+  };
+
+  // Remove asset from portfolio (real blockchain transaction); confirmed in the dialog first
+  const removeAsset = async (symbol: string) => {
+    try {
+      if (!client || !account || portfolioId === null) {
         setMessage("❌ Please connect wallet first");
         return;
       }
 
-      if (chainId !== SEPOLIA_CHAIN_ID) {
-        setMessage("❌ Please switch to Sepolia testnet");
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
         return;
       }
 
       setLoading(true);
       setMessage("🔄 Estimating gas for removing asset...");
 
-      // Estimate gas
-      await estimateGasForOperation('removeAsset', [symbol]);
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'removeAsset', portfolioId, symbol });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return;
+      }
 
-      setMessage(`⏳ Removing ${symbol} from portfolio. Please confirm in MetaMask...`);
+      setMessage(`⏳ Removing ${symbol} from portfolio. Please confirm in ${walletName}...`);
 
       // Execute transaction
-      const tx = await contract.removeAsset(symbol);
+      const tx = await client.removeAsset(portfolioId, symbol, overrides);
       setMessage(`🔄 Transaction submitted: ${tx.hash}`);
 
-      // Track transaction
-      await trackTransaction(tx.hash, `Remove Asset: ${symbol}`);
-
-      // Wait for confirmation
-      const receipt = await tx.wait();
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Remove Asset: ${symbol}`);
 
-      if (receipt.status === 1) {
+      if (result?.status === 'confirmed') {
         setMessage(`🗑️ Asset ${symbol} removed successfully!`);
-        await loadAssets(contract, account);
+        await loadAssets(client, portfolioId);
         await getBalance(account); // Update balance after transaction
       } else {
-        setMessage("❌ Transaction failed");
+        setMessage(failureMessage(result));
       }
 
-    } catch (error: any) {
-      console.error('Remove asset failed:', error);
-      if (error.code === 4001) {
-        setMessage("❌ Transaction rejected by user");
-      } else if (error.code === 'INSUFFICIENT_FUNDS') {
-        setMessage("❌ Insufficient funds for gas");
-      } else if (error.reason) {
-        setMessage(`❌ ${error.reason}`);
+    } catch (err) {
+      console.error('Remove asset failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to remove asset. Please try again.')}`);
+    } finally {
+      setLoading(false);
+      setCurrentTransaction(null);
+    }
+  };
+
+  // Share the whole portfolio or one asset with a viewer until `expiresAt` (real blockchain transaction).
+  // The decryption key is sealed to the viewer's registered key before it goes on-chain.
+  const grantAccess = async (viewer: string, symbol: string, expiresAt: Date): Promise<boolean> => {
+    try {
+      if (!client || !account || portfolioId === null) {
+        setMessage("❌ Please connect wallet first");
+        return false;
+      }
+
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
+        return false;
+      }
+
+      setLoading(true);
+      const viewerPublicKey = await client.getViewerKey(viewer);
+      if (!viewerPublicKey) {
+        setMessage(`❌ ${viewer} has no viewer key yet. Ask them to register one under Shared With Me first.`);
+        return false;
+      }
+
+      // Per-asset grants seal one asset key, whole-portfolio grants this portfolio's key
+      const scope = symbol || `portfolio "${currentPortfolio?.name}"`;
+      const sealedKey = symbol
+        ? await sealAssetKey(await getEncryptionKey(), symbol, viewer, viewerPublicKey)
+        : await sealPortfolioKey(await getAccountKey(), portfolioId, viewer, viewerPublicKey);
+
+      setMessage("🔄 Estimating gas for granting access...");
+
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'grantAccess', portfolioId, viewer, symbol, expiresAt, sealedKey });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return false;
+      }
+
+      setMessage(`⏳ Granting ${viewer} access to ${scope}. Please confirm in ${walletName}...`);
+
+      // Execute transaction
+      const tx = await client.grantAccess(portfolioId, viewer, symbol, expiresAt, sealedKey, overrides);
+      setMessage(`🔄 Transaction submitted: ${tx.hash}`);
+
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Grant Access: ${scope} to ${viewer}`);
+
+      if (result?.status !== 'confirmed') {
+        setMessage(failureMessage(result));
+        return false;
+      }
+      setMessage(`👥 ${viewer} can view ${scope} until ${expiresAt.toLocaleString()}`);
+      await getBalance(account); // Update balance after transaction
+      return true;
+
+    } catch (err) {
+      console.error('Grant access failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to grant access. Please try again.')}`);
+      return false;
+    } finally {
+      setLoading(false);
+      setCurrentTransaction(null);
+    }
+  };
+
+  // Revoke a viewer's grant (real blockchain transaction)
+  const revokeAccess = async (viewer: string, symbol: string): Promise<boolean> => {
+    try {
+      if (!client || !account || portfolioId === null) {
+        setMessage("❌ Please connect wallet first");
+        return false;
+      }
+
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
+        return false;
+      }
+
+      setLoading(true);
+      setMessage("🔄 Estimating gas for revoking access...");
+
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'revokeAccess', portfolioId, viewer, symbol });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return false;
+      }
+
+      const scope = symbol || `portfolio "${currentPortfolio?.name}"`;
+      setMessage(`⏳ Revoking ${viewer}'s access to ${scope}. Please confirm in ${walletName}...`);
+
+      // Execute transaction
+      const tx = await client.revokeAccess(portfolioId, viewer, symbol, overrides);
+      setMessage(`🔄 Transaction submitted: ${tx.hash}`);
+
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Revoke Access: ${scope} from ${viewer}`);
+
+      if (result?.status !== 'confirmed') {
+        setMessage(failureMessage(result));
+        return false;
+      }
+      setMessage(`🚫 Access to ${scope} revoked for ${viewer}`);
+      await getBalance(account); // Update balance after transaction
+      return true;
+
+    } catch (err) {
+      console.error('Revoke access failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to revoke access. Please try again.')}`);
+      return false;
+    } finally {
+      setLoading(false);
+      setCurrentTransaction(null);
+    }
+  };
+
+  // Publish the public half of this account's viewer key (real blockchain transaction)
+  const registerViewerKey = async (publicKey: string): Promise<boolean> => {
+    try {
+      if (!client || !account) {
+        setMessage("❌ Please connect wallet first");
+        return false;
+      }
+
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
+        return false;
+      }
+
+      setLoading(true);
+      setMessage("🔄 Estimating gas for registering viewer key...");
+
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'setViewerKey', publicKey });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return false;
+      }
+
+      setMessage(`⏳ Registering viewer key. Please confirm in ${walletName}...`);
+
+      // Execute transaction
+      const tx = await client.setViewerKey(publicKey, overrides);
+      setMessage(`🔄 Transaction submitted: ${tx.hash}`);
+
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, 'Register Viewer Key');
+
+      if (result?.status !== 'confirmed') {
+        setMessage(failureMessage(result));
+        return false;
+      }
+      setMessage("🔑 Viewer key registered. Other accounts can now share portfolios with you.");
+      await getBalance(account); // Update balance after transaction
+      return true;
+
+    } catch (err) {
+      console.error('Register viewer key failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to register viewer key. Please try again.')}`);
+      return false;
+    } finally {
+      setLoading(false);
+      setCurrentTransaction(null);
+    }
+  };
+
+  // Combined gas estimate for a batch; ciphertexts have a fixed size, so
+  // placeholders give the same estimate without asking for a signature
+  const estimateBatch = async (rows: BatchRow[]) => {
+    if (portfolioId === null) return;
+    const placeholders = { encryptedAmount: placeholderCiphertext(), encryptedValue: placeholderCiphertext() };
+    const changes: AssetChange[] = rows.map(row =>
+      row.type === 'remove'
+        ? { type: 'remove', symbol: row.symbol }
+        : { type: row.type, symbol: row.symbol, amounts: placeholders }
+    );
+
+    setMessage("🔄 Estimating gas for batch...");
+    await estimateGasForOperation({ type: 'applyAssetChanges', portfolioId, changes });
+    setMessage(`⛽ Gas estimated for ${rows.length} changes in one transaction`);
+  };
+
+  // Apply asset changes in one transaction (real blockchain transaction), so either
+  // all of them land or none do. Larger batches than the contract's MAX_BATCH_SIZE are refused.
+  const submitBatch = async (rows: BatchRow[]): Promise<boolean> => {
+    try {
+      if (!client || !account || portfolioId === null) {
+        setMessage("❌ Please connect wallet first");
+        return false;
+      }
+
+      if (!onSelectedNetwork) {
+        setMessage(`❌ Please switch to ${network.chainName}`);
+        return false;
+      }
+
+      if (rows.length > MAX_BATCH_SIZE) {
+        setMessage(`❌ A batch can hold at most ${MAX_BATCH_SIZE} changes; split it so each part applies in full`);
+        return false;
+      }
+
+      setLoading(true);
+
+      // Encrypt every add and update locally so only ciphertext reaches the chain
+      const key = await getEncryptionKey();
+      const changes: AssetChange[] = await Promise.all(rows.map(async (row): Promise<AssetChange> => {
+        if (row.type === 'remove') {
+          return { type: 'remove', symbol: row.symbol };
+        }
+
+        // Updates keep the scale the holding was stored with; only new assets take the catalog's
+        const decimals = row.type === 'update'
+          ? (await client.getAsset(portfolioId, row.symbol, key)).decimals
+          : amountDecimalsOf(row.symbol);
+
+        // Convert to integers with appropriate decimals; a row that can't be stored exactly fails the whole batch
+        const amountInt = parseFixedPoint(row.amount, decimals, `${row.symbol} amount`);
+        const valueInt = parseFixedPoint(row.value, VALUE_DECIMALS, `${row.symbol} USD value`);
+        const amounts = await encryptAmounts(key, row.symbol, amountInt, valueInt, decimals);
+        return { type: row.type, symbol: row.symbol, amounts };
+      }));
+
+      setMessage("🔄 Estimating gas for batch...");
+
+      // Estimate gas and wait for the user to choose a fee tier
+      const overrides = await confirmFees({ type: 'applyAssetChanges', portfolioId, changes });
+      if (overrides === null) {
+        setMessage("🚫 Transaction cancelled");
+        return false;
+      }
+
+      setMessage(`⏳ Applying ${changes.length} changes. Please confirm in ${walletName}...`);
+
+      // Execute transaction
+      const tx = await client.applyAssetChanges(portfolioId, changes, overrides);
+      setMessage(`🔄 Transaction submitted: ${tx.hash}`);
+
+      // Track transaction until it, or a speed-up replacing it, is mined
+      const result = await trackTransaction(tx.hash, `Batch: ${changes.map(change => `${change.type} ${change.symbol}`).join(', ')}`);
+
+      if (result?.status !== 'confirmed') {
+        setMessage(failureMessage(result));
+        return false;
+      }
+
+      setMessage(`🧾 ${changes.length} changes applied successfully!`);
+      setShowBatchEditor(false);
+      setShowImport(false);
+
+      await loadAssets(client, portfolioId);
+      await getBalance(account); // Update balance after transaction
+      return true;
+
+    } catch (err) {
+      console.error('Batch update failed:', err);
+      const error = toPortfolioError(err);
+      if (error instanceof ContractRevertError) {
+        setMessage(`❌ Batch rejected, nothing in it was changed: ${describeError(error)}`);
       } else {
-        setMessage("❌ Failed to remove asset. Please try again.");
+        setMessage(`❌ ${describeError(error, 'Failed to apply batch. Please try again.')}`);
       }
+      return false;
     } finally {
       setLoading(false);
       setCurrentTransaction(null);
     }
   };
 
-  // Get Sepolia testnet ETH
-  const getSepoliaETH = () => {
-    window.open('https://sepoliafaucet.com/', '_blank');
+  // Pick the price source used by the add form and re-pricing
+  const selectPriceSource = (id: string) => {
+    setPriceSourceId(id);
+    localStorage.setItem(PRICE_SOURCE_STORAGE_KEY, id);
+  };
+
+  // Re-price every holding at the current price and store the new values in one batch.
+  // Past MAX_BATCH_SIZE changed holdings, each run applies the first batch in full
+  // and leaves the rest for the next run, which skips holdings already up to date.
+  const repriceHoldings = async () => {
+    if (!client || !account || portfolioId === null || !priceSource) {
+      setMessage("❌ Please connect wallet and choose a price source first");
+      return;
+    }
+
+    let rows: BatchRow[];
+    let unpriced: string[];
+    let stale: string[];
+    try {
+      setLoading(true);
+      const key = await getEncryptionKey();
+
+      setMessage(`💹 Fetching ${priceSource.name} prices...`);
+      const holdings = await client.getAssets(portfolioId, key);
+      // Stale quotes are kept apart so they are reported, and never written as current values
+      const quotes = await Promise.all(holdings.map(asset => priceSource.getPrice(asset.symbol).catch(error => error)));
+      const prices = quotes.map(quote => (quote instanceof Error ? null : quote));
+
+      stale = quotes.filter((quote): quote is StalePriceError => quote instanceof StalePriceError).map(quote => quote.message);
+      unpriced = holdings
+        .filter((_, index) => !prices[index] && !(quotes[index] instanceof StalePriceError))
+        .map(asset => asset.symbol);
+      rows = holdings.flatMap((asset, index): BatchRow[] => {
+        const price = prices[index];
+        if (!price) return [];
+        const value = computeValue(asset.amount, price, asset.decimals);
+        return value === asset.value ? [] : [{
+          id: index,
+          type: 'update',
+          symbol: asset.symbol,
+          amount: formatFixedPoint(asset.amount, asset.decimals),
+          value: formatFixedPoint(value, VALUE_DECIMALS)
+        }];
+      });
+    } catch (err) {
+      console.error('Re-pricing failed:', err);
+      setMessage(`❌ ${describeError(err, 'Failed to fetch prices')}`);
+      return;
+    } finally {
+      setLoading(false);
+    }
+
+    const skipped = (unpriced.length > 0 ? ` No price for: ${unpriced.join(', ')}.` : '') +
+      (stale.length > 0 ? ` Skipped stale prices: ${stale.join('; ')}.` : '');
+    if (rows.length === 0) {
+      setMessage(`💹 All priced holdings are up to date.${skipped}`);
+      return;
+    }
+
+    const batch = rows.slice(0, MAX_BATCH_SIZE);
+    const remaining = rows.length > batch.length
+      ? ` ${rows.length - batch.length} more need re-pricing; run it again to update them.`
+      : '';
+    if (await submitBatch(batch)) {
+      setMessage(`💹 Re-priced ${batch.length} holdings via ${priceSource.name}.${skipped}${remaining}`);
+    }
+  };
+
+  // Get test ETH from the selected network's faucet
+  const getTestETH = () => {
+    if (network.faucetUrl) {
+      window.open(network.faucetUrl, '_blank');
+    }
   };
 
   return (
@@ -642,7 +1757,7 @@ function App() {
           <h1 className="title">Confidential Portfolio</h1>
           <h2 className="subtitle">Private Asset Management · Encrypted Investments · Blockchain Security</h2>
           <div style={{marginTop: '20px', fontSize: '15px', color: 'rgba(226, 232, 240, 0.7)', fontWeight: '400'}}>
-            Decentralized private wealth management powered by FHE (Fully Homomorphic Encryption)
+            Private wealth tracking: holdings are encrypted in your browser before they reach the chain
           </div>
         </div>
       </header>
@@ -650,19 +1765,57 @@ function App() {
       {/* Network & Account Status */}
       <div className="status-section">
         <div className="blockchain-info">
-          <p>&gt; <strong>🔒 LIVE BLOCKCHAIN DAPP</strong> - Real Sepolia Network Transactions</p>
-          <p>&gt; Network Status: <span className={`highlight ${chainId === SEPOLIA_CHAIN_ID ? 'success' : 'error'}`}>
-            {chainId === SEPOLIA_CHAIN_ID ? '✅ Sepolia Testnet' : '❌ ' + networkStatus}
+          <p>&gt; <strong>🔒 LIVE BLOCKCHAIN DAPP</strong> - Real {network.chainName} Transactions</p>
+          <p>&gt; Network:{' '}
+            <select
+              className="network-select"
+              value={network.chainId}
+              onChange={(e) => selectNetwork(e.target.value)}
+              disabled={loading}
+            >
+              {SUPPORTED_NETWORKS.map((option) => (
+                <option key={option.chainId} value={option.chainId}>
+                  {option.chainName} ({parseInt(option.chainId, 16)})
+                </option>
+              ))}
+            </select>
+          </p>
+          <p>&gt; Price Source:{' '}
+            <select
+              className="network-select"
+              value={activePriceSourceId ?? 'manual'}
+              onChange={(e) => selectPriceSource(e.target.value)}
+              disabled={loading}
+            >
+              {priceOptions.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+              <option value="manual">Manual entry</option>
+            </select>
+          </p>
+          <p>&gt; Network Status: <span className={`highlight ${onSelectedNetwork ? 'success' : 'error'}`}>
+            {onSelectedNetwork ? `✅ ${network.chainName}` : '❌ ' + networkStatus}
           </span></p>
-          <p>&gt; Smart Contract: <a href={`https://sepolia.etherscan.io/address/${CONTRACT_ADDRESS}`} target="_blank" rel="noopener noreferrer" className="highlight">
-            {CONTRACT_ADDRESS.slice(0, 6)}...{CONTRACT_ADDRESS.slice(-4)} ↗
-          </a></p>
+          <p>&gt; Smart Contract: {getExplorerAddressUrl(network, network.contractAddress) ? (
+            <a href={getExplorerAddressUrl(network, network.contractAddress)} target="_blank" rel="noopener noreferrer" className="highlight">
+              {network.contractAddress.slice(0, 6)}...{network.contractAddress.slice(-4)} ↗
+            </a>
+          ) : (
+            <span className="highlight">{network.contractAddress.slice(0, 6)}...{network.contractAddress.slice(-4)}</span>
+          )}</p>
           {account && (
             <>
               <p>&gt; Wallet Address: <span className="highlight">{account.slice(0, 8)}...{account.slice(-6)}</span></p>
+              <AccountSwitcher
+                accounts={recentAccounts}
+                current={account}
+                disabled={loading}
+                onSwitch={switchAccount}
+                onForget={forgetAccount}
+              />
               <p>&gt; ETH Balance: <span className="highlight gold">{parseFloat(balance).toFixed(4)} ETH</span>
-                {parseFloat(balance) < 0.01 && (
-                  <button className="button" onClick={getSepoliaETH} style={{marginLeft: '12px', padding: '8px 16px', fontSize: '12px'}}>
+                {parseFloat(balance) < 0.01 && network.faucetUrl && (
+                  <button className="button" onClick={getTestETH} style={{marginLeft: '12px', padding: '8px 16px', fontSize: '12px'}}>
                     Get Test ETH
                   </button>
                 )}
@@ -685,50 +1838,97 @@ function App() {
           <h3 style={{color: '#ffffff', marginBottom: '10px', fontWeight: '600'}}>Current Transaction</h3>
           <p>&gt; Operation: <span className="highlight">{currentTransaction.description}</span></p>
           <p>&gt; Hash: <span className="highlight">{currentTransaction.hash}</span></p>
-          <p>&gt; Status: <span className={currentTransaction.status === 'confirmed' ? 'success' : currentTransaction.status === 'failed' ? 'error' : 'warning'}>
+          <p>&gt; Status: <span className={currentTransaction.status === 'confirmed' ? 'success' : currentTransaction.status === 'pending' ? 'warning' : 'error'}>
             {currentTransaction.status.toUpperCase()}
           </span></p>
+          {currentTransaction.status === 'pending' && (
+            <div className="tx-actions">
+              <button className="edit-asset" onClick={() => replaceTransaction(currentTransaction, 'speedup')}>⚡ Speed up</button>
+              <button className="remove-asset" onClick={() => replaceTransaction(currentTransaction, 'cancel')}>✕ Cancel</button>
+            </div>
+          )}
           {currentTransaction.status === 'confirmed' && (
             <>
               <p>&gt; Confirmations: <span className="highlight">{currentTransaction.confirmations}</span></p>
               {currentTransaction.gasUsed && <p>&gt; Gas Used: <span className="highlight">{currentTransaction.gasUsed}</span></p>}
-              {currentTransaction.gasPrice && <p>&gt; Gas Price: <span className="highlight">{currentTransaction.gasPrice} gwei</span></p>}
+              {currentTransaction.effectiveGasPrice && <p>&gt; Gas Price: <span className="highlight">{ethers.formatUnits(currentTransaction.effectiveGasPrice, 'gwei')} gwei</span></p>}
+              {currentTransaction.fee && <p>&gt; Fee: <span className="highlight">{ethers.formatEther(currentTransaction.fee)} {network.nativeCurrency.symbol}</span></p>}
             </>
           )}
-          <p>&gt; <a href={`https://sepolia.etherscan.io/tx/${currentTransaction.hash}`} target="_blank" rel="noopener noreferrer" className="highlight">
-            View on Etherscan ↗
-          </a></p>
+          {getExplorerTxUrl(network, currentTransaction.hash) && (
+            <p>&gt; <a href={getExplorerTxUrl(network, currentTransaction.hash)} target="_blank" rel="noopener noreferrer" className="highlight">
+              View on Block Explorer ↗
+            </a></p>
+          )}
         </div>
       )}
 
       {/* Gas Estimation */}
-      {estimatedGas && gasPrice && (
-        <div className="status-section">
-          <h3 style={{color: '#ffffff', marginBottom: '10px', fontWeight: '600'}}>Gas Estimation</h3>
-          <p>&gt; Estimated Gas: <span className="highlight">{estimatedGas}</span></p>
-          <p>&gt; Gas Price: <span className="highlight">{gasPrice} gwei</span></p>
-          <p>&gt; Estimated Cost: <span className="highlight">
-            {(parseFloat(estimatedGas) * parseFloat(gasPrice) / 1e9).toFixed(6)} ETH
-          </span></p>
-        </div>
+      {estimatedGas !== null && feeQuotes && (
+        <FeePreview
+          gas={estimatedGas}
+          quotes={feeQuotes}
+          tier={feeTier}
+          onSelectTier={selectFeeTier}
+          nativeSymbol={network.nativeCurrency.symbol}
+          nativePrice={nativePrice}
+        />
       )}
 
       {/* Connection Section */}
       {!account && (
         <div className="text-center margin-bottom">
-          <button className="wallet-button" onClick={connectWallet} disabled={loading}>
-            {loading ? '🔄 Connecting Wallet...' : '🦊 Connect MetaMask Wallet'}
-          </button>
-          {!isMetaMaskInstalled() && (
+          <div className="wallet-picker">
+            {sortedWallets.map(option => (
+              <button
+                key={option.info.uuid}
+                className="wallet-button"
+                onClick={() => connectWallet(option)}
+                disabled={loading}
+              >
+                {option.info.icon ? <img src={option.info.icon} alt="" className="wallet-icon" /> : '👛'}
+                {' '}Connect {option.info.name}
+                {option.info.rdns === lastWalletRdns && <span className="wallet-last-used"> · last used</span>}
+              </button>
+            ))}
+          </div>
+          {loading && <p className="last-update">🔄 Connecting Wallet...</p>}
+          {wallets.length === 0 && (
             <p style={{color: '#f56565', marginTop: '10px'}}>
-              ⚠️ MetaMask wallet not detected. <a href="https://metamask.io/download/" target="_blank" rel="noopener noreferrer" className="highlight">Install MetaMask</a>
+              ⚠️ No wallet detected. <a href="https://metamask.io/download/" target="_blank" rel="noopener noreferrer" className="highlight">Install MetaMask</a> or another Ethereum wallet
             </p>
           )}
         </div>
       )}
 
+      {/* Watch Mode */}
+      <div className="text-center margin-bottom">
+        <div className="watch-form">
+          <input
+            type="text"
+            placeholder="Watch any address read-only (0x...)"
+            className="input-field"
+            value={watchInput}
+            onChange={(e) => setWatchInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && watchPortfolio()}
+          />
+          <button className="button" onClick={watchPortfolio} disabled={!watchInput.trim()}>
+            👀 Watch
+          </button>
+        </div>
+      </div>
+      {watchAddress && (
+        <WatchPortfolio
+          address={watchAddress}
+          network={network}
+          walletClient={onSelectedNetwork ? client : null}
+          account={account}
+          onStop={() => setWatchAddress(null)}
+        />
+      )}
+
       {/* Portfolio Management Section */}
-      {account && chainId === SEPOLIA_CHAIN_ID && (
+      {account && onSelectedNetwork && (
         <div>
           {/* Portfolio Status */}
           <div className="status-section portfolio-status">
@@ -744,9 +1944,21 @@ function App() {
               </span></p>
               {hasPortfolio && (
                 <>
+                  <PortfolioSwitcher
+                    portfolios={portfolios}
+                    currentId={currentPortfolio.id}
+                    disabled={loading}
+                    onSelect={selectPortfolio}
+                    onCreate={createPortfolio}
+                    onRename={renamePortfolio}
+                    onClose={() => setConfirmation({ type: 'closePortfolio', portfolio: currentPortfolio })}
+                  />
                   <p>&gt; Encrypted Assets: <span className="highlight gold">{assets.length} confidential holdings</span></p>
-                  <p>&gt; Privacy Level: <span className="highlight">★★★★★ Military-Grade FHE Encryption</span></p>
-                  <p>&gt; Security Status: <span className="highlight emerald">🔒 Zero-Knowledge Protection</span></p>
+                  {revealed && (
+                    <p>&gt; Total Value: <span className="highlight gold">${revealedTotal}</span></p>
+                  )}
+                  <p>&gt; Privacy Level: <span className="highlight">AES-256-GCM, encrypted in your browser</span></p>
+                  <p>&gt; Security Status: <span className="highlight emerald">🔒 Key derived from your wallet signature</span></p>
                 </>
               )}
             </div>
@@ -755,12 +1967,28 @@ function App() {
           {/* Create Portfolio Button */}
           {!hasPortfolio && (
             <div className="text-center margin-bottom">
-              <button className="button create-portfolio-btn" onClick={createPortfolio} disabled={loading || parseFloat(balance) < 0.001}>
+              <div className="portfolio-name-form">
+                <input
+                  type="text"
+                  className="input-field"
+                  placeholder="Portfolio name"
+                  value={newPortfolioName}
+                  onChange={(e) => setNewPortfolioName(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <button
+                className="button create-portfolio-btn"
+                onClick={() => createPortfolio(newPortfolioName.trim())}
+                disabled={loading || parseFloat(balance) < 0.001 || !!portfolioNameError(newPortfolioName)}
+              >
                 {loading ? '⏳ Creating Secure Vault...' : '🚀 Create Encrypted Portfolio'}
               </button>
               {parseFloat(balance) < 0.001 && (
                 <p style={{color: '#f56565', marginTop: '10px'}}>
-                  ⚠️ Need ETH for transaction fees. <button className="button" onClick={getSepoliaETH} style={{fontSize: '12px', padding: '8px 16px'}}>Get Test ETH</button>
+                  ⚠️ Need ETH for transaction fees.{network.faucetUrl && (
+                    <> <button className="button" onClick={getTestETH} style={{fontSize: '12px', padding: '8px 16px'}}>Get Test ETH</button></>
+                  )}
                 </p>
               )}
             </div>
@@ -777,36 +2005,121 @@ function App() {
                 >
                   {showAddAsset ? '❌ Cancel' : '💰 Add Encrypted Asset'}
                 </button>
+                <button
+                  className="button add-asset-btn"
+                  onClick={() => setShowBatchEditor(!showBatchEditor)}
+                  disabled={loading}
+                  style={{marginLeft: '12px'}}
+                >
+                  {showBatchEditor ? '❌ Close Batch' : '🧾 Batch Changes'}
+                </button>
+                <button
+                  className="button add-asset-btn"
+                  onClick={() => setShowImport(!showImport)}
+                  disabled={loading}
+                  style={{marginLeft: '12px'}}
+                >
+                  {showImport ? '❌ Close Import' : '📥 Import File'}
+                </button>
+                <button
+                  className="button add-asset-btn"
+                  onClick={() => setShowExport(!showExport)}
+                  disabled={loading || assets.length === 0}
+                  style={{marginLeft: '12px'}}
+                >
+                  {showExport ? '❌ Close Export' : '📤 Export'}
+                </button>
+                <button
+                  className="button add-asset-btn"
+                  onClick={() => setShowSharing(!showSharing)}
+                  disabled={loading}
+                  style={{marginLeft: '12px'}}
+                >
+                  {showSharing ? '❌ Close Sharing' : '👥 Share'}
+                </button>
+                <button
+                  className="button add-asset-btn"
+                  onClick={() => setShowAnalytics(!showAnalytics)}
+                  disabled={assets.length === 0}
+                  style={{marginLeft: '12px'}}
+                >
+                  {showAnalytics ? '❌ Close Analytics' : '📈 Analytics'}
+                </button>
               </div>
 
+              {/* Portfolio Export */}
+              {showExport && client && (
+                <ExportPanel client={client} account={account} portfolioId={currentPortfolio.id} getEncryptionKey={getEncryptionKey} />
+              )}
+
+              {/* Analytics */}
+              {showAnalytics && (
+                <AnalyticsPanel
+                  records={assets}
+                  holdings={holdings}
+                  onChainTotal={onChainTotal}
+                  staleAfterDays={staleAfterDays}
+                  onChangeStaleAfter={selectStaleAfter}
+                />
+              )}
+              {showAnalytics && revealed && encryptionKey && client && (
+                <ValueHistoryChart client={client} portfolioId={currentPortfolio.id} records={assets} encryptionKey={encryptionKey} />
+              )}
+
+              {/* Viewer Grants */}
+              {showSharing && client && (
+                <SharingPanel
+                  client={client}
+                  account={account}
+                  portfolioId={currentPortfolio.id}
+                  symbols={assets.map(asset => asset.symbol)}
+                  disabled={loading || parseFloat(balance) < 0.001}
+                  onGrant={grantAccess}
+                  onRevoke={revokeAccess}
+                />
+              )}
+
+              {/* Holdings Import */}
+              {showImport && (
+                <ImportPanel
+                  symbols={assets.map(asset => asset.symbol)}
+                  disabled={loading || parseFloat(balance) < 0.001}
+                  amountDecimalsOf={amountDecimalsOf}
+                  onSubmit={submitBatch}
+                />
+              )}
+
+              {/* Batch Editor */}
+              {showBatchEditor && (
+                <BatchEditor
+                  symbols={assets.map(asset => asset.symbol)}
+                  disabled={loading || parseFloat(balance) < 0.001}
+                  amountDecimalsOf={amountDecimalsOf}
+                  onEstimate={estimateBatch}
+                  onSubmit={submitBatch}
+                />
+              )}
+
               {/* Add Asset Form */}
               {showAddAsset && (
                 <div className="status-section add-asset-form">
                   <div className="form-header">
                     <h3>🔒 Add New Encrypted Asset</h3>
                     <div className="security-badge">
-                      <span>🛡️ FHE Protected</span>
+                      <span>🛡️ Encrypted in Browser</span>
                     </div>
                   </div>
                   
                   {/* Asset Presets */}
-                  <div className="preset-assets">
-                    <p className="preset-title">🎯 Quick Select Popular Crypto Assets:</p>
-                    <div className="asset-presets">
-                      {ASSET_PRESETS.map((preset) => (
-                        <button
-                          key={preset.symbol}
-                          className={`preset-btn ${selectedPreset === preset.symbol ? 'selected' : ''}`}
-                          onClick={() => selectAssetPreset(preset)}
-                          type="button"
-                          disabled={loading}
-                        >
-                          {preset.symbol}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                  
+                  <AssetCatalogPicker
+                    catalog={catalog}
+                    selected={assetSymbol}
+                    disabled={loading}
+                    onSelect={selectCatalogAsset}
+                    onAddCustom={addCustomAsset}
+                    onRemoveCustom={removeCustomAsset}
+                  />
+
                   <div className="input-group">
                     <label className="input-label">🏷️ Asset Symbol</label>
                     <input
@@ -821,38 +2134,39 @@ function App() {
                   </div>
                   
                   <div className="input-group">
-                    <label className="input-label">📊 Holdings Amount</label>
+                    <label className="input-label">📊 Holdings Amount ({assetDecimals} decimals)</label>
                     <input
-                      type="number"
+                      type="text"
+                      inputMode="decimal"
                       value={assetAmount}
                       onChange={(e) => setAssetAmount(e.target.value)}
                       placeholder="e.g., 0.5, 100"
                       className="input-field"
-                      step="0.000001"
-                      min="0"
                       disabled={loading}
                     />
+                    {assetAmountError && <p className="warning">⚠️ {assetAmountError}</p>}
                   </div>
                   
                   <div className="input-group">
                     <label className="input-label">💰 USD Value</label>
                     <input
-                      type="number"
+                      type="text"
+                      inputMode="decimal"
                       value={assetValue}
                       onChange={(e) => setAssetValue(e.target.value)}
                       placeholder="e.g., 25000, 1500"
                       className="input-field"
-                      step="0.01"
-                      min="0"
                       disabled={loading}
                     />
+                    {assetValueError && <p className="warning">⚠️ {assetValueError}</p>}
+                    {priceHint && <p className="price-hint">{priceHint}</p>}
                   </div>
                   
                   <div className="form-actions">
                     <button 
                       className="button encrypt-asset-btn" 
                       onClick={addAsset}
-                      disabled={loading || !assetSymbol || !assetAmount || !assetValue || parseFloat(balance) < 0.001}
+                      disabled={loading || !assetSymbol || !assetAmount || !assetValue || !!assetAmountError || !!assetValueError || parseFloat(balance) < 0.001}
                     >
                       {loading ? '⏳ Encrypting & Storing...' : '🔒 Encrypt & Store Asset'}
                     </button>
@@ -869,7 +2183,7 @@ function App() {
                       <span className="privacy-icon">🛡️</span>
                       <strong>Privacy Protection</strong>
                     </div>
-                    <p>Your asset data will be encrypted using military-grade FHE (Fully Homomorphic Encryption) and stored on the blockchain. Only you can decrypt and view the actual values. Complete financial privacy guaranteed.</p>
+                    <p>Your holdings amount and USD value are encrypted in your browser with a key derived from your wallet signature, and only the ciphertext is stored on the blockchain. Only you can decrypt and view the actual values.</p>
                   </div>
                 </div>
               )}
@@ -879,8 +2193,26 @@ function App() {
                 <div className="status-section portfolio-display">
                   <div className="portfolio-header">
                     <h3>🏦 Your Confidential Portfolio</h3>
-                    <div className="encryption-badge">
-                      <span>🛡️ Military-Grade Encrypted</span>
+                    <div className="portfolio-header-actions">
+                      {priceSource && (
+                        <button
+                          className="reveal-toggle"
+                          onClick={repriceHoldings}
+                          disabled={loading || parseFloat(balance) < 0.001}
+                        >
+                          💹 Re-price
+                        </button>
+                      )}
+                      <button
+                        className="reveal-toggle"
+                        onClick={revealed ? hideHoldings : revealHoldings}
+                        disabled={loading}
+                      >
+                        {revealed ? '🙈 Hide' : '👁️ Reveal'}
+                      </button>
+                      <div className="encryption-badge">
+                        <span>{revealed ? '🔓 Decrypted Locally' : '🛡️ AES-GCM Encrypted'}</span>
+                      </div>
                     </div>
                   </div>
                   
@@ -900,21 +2232,73 @@ function App() {
                         <div className="asset-details">
                           <div className="asset-data-row">
                             <span className="label">Holdings:</span>
-                            <span className="asset-data amount">{asset.amount} 🔒</span>
+                            <span className="asset-data amount">{asset.amount} {revealed ? '🔓' : '🔒'}</span>
                           </div>
                           <div className="asset-data-row">
                             <span className="label">Value:</span>
-                            <span className="asset-data value">${asset.value} 🔒</span>
+                            <span className="asset-data value">${asset.value} {revealed ? '🔓' : '🔒'}</span>
                           </div>
                           <div className="encryption-status">
-                            <span>🔐 FHE Encrypted & Secure</span>
+                            <span>🔐 AES-GCM Encrypted</span>
                           </div>
                         </div>
                         
+                        {editingSymbol === asset.symbol && (
+                          <div className="asset-edit-form">
+                            <div className="input-group">
+                              <label className="input-label">📊 New Holdings Amount</label>
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                value={editAmount}
+                                onChange={(e) => setEditAmount(e.target.value)}
+                                placeholder="e.g., 0.5, 100"
+                                className="input-field"
+                                disabled={loading}
+                              />
+                              {editAmountError && <p className="warning">⚠️ {editAmountError}</p>}
+                            </div>
+                            <div className="input-group">
+                              <label className="input-label">💰 New USD Value</label>
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                value={editValue}
+                                onChange={(e) => setEditValue(e.target.value)}
+                                placeholder="e.g., 25000, 1500"
+                                className="input-field"
+                                disabled={loading}
+                              />
+                              {editValueError && <p className="warning">⚠️ {editValueError}</p>}
+                            </div>
+                            <div className="form-actions">
+                              <button
+                                className="button"
+                                onClick={updateAsset}
+                                disabled={loading || !editAmount || !editValue || !!editAmountError || !!editValueError || parseFloat(balance) < 0.001}
+                              >
+                                {loading ? '⏳ Updating...' : '💾 Save Changes'}
+                              </button>
+                              <button className="button" onClick={cancelEditAsset} disabled={loading}>
+                                ❌ Cancel
+                              </button>
+                            </div>
+                          </div>
+                        )}
+
                         <div className="asset-actions">
-                          <button 
-                            className="remove-asset" 
-                            onClick={() => removeAsset(asset.symbol)}
+                          {editingSymbol !== asset.symbol && (
+                            <button
+                              className="edit-asset"
+                              onClick={() => startEditAsset(asset)}
+                              disabled={loading || parseFloat(balance) < 0.001}
+                            >
+                              ✏️ Edit
+                            </button>
+                          )}
+                          <button
+                            className="remove-asset"
+                            onClick={() => setConfirmation({ type: 'removeAsset', symbol: asset.symbol })}
                             disabled={loading || parseFloat(balance) < 0.001}
                           >
                             🗑️ Remove
@@ -929,13 +2313,13 @@ function App() {
                       <span className="security-icon">🛡️</span>
                       <strong>Privacy & Security</strong>
                     </div>
-                    <p>All your asset data is encrypted with FHE (Fully Homomorphic Encryption) and stored on-chain. Even blockchain explorers cannot view your actual asset values - only you can decrypt this information.</p>
+                    <p>Amounts and values are encrypted in your browser with AES-GCM, under a key derived from a signature by your wallet, and only the ciphertext is stored on-chain. Blockchain explorers see symbols and ciphertext, never your actual holdings - only you, and viewers you grant access, can decrypt them.</p>
                   </div>
                 </div>
               )}
 
               {/* Empty Portfolio Message */}
-              {assets.length === 0 && !showAddAsset && (
+              {assets.length === 0 && !showAddAsset && !showBatchEditor && !showImport && (
                 <div className="status-section empty-portfolio">
                   <div className="empty-header">
                     <div className="empty-icon">🏦</div>
@@ -944,61 +2328,129 @@ function App() {
                   <div className="empty-content">
                     <p>&gt; 📊 Your encrypted portfolio vault has been created successfully</p>
                     <p>&gt; 🚀 Click "Add Encrypted Asset" to start building your confidential holdings</p>
-                    <p>&gt; 🔒 All data will be encrypted with FHE technology on the blockchain</p>
-                    <p>&gt; 🏛️ Enjoy military-grade privacy protection for your digital wealth</p>
+                    <p>&gt; 🔒 Amounts and values are encrypted in your browser before they are sent to the blockchain</p>
+                    <p>&gt; 🔑 Your key is derived from a wallet signature and never leaves this browser</p>
                   </div>
                 </div>
               )}
+
+              {/* Activity Timeline */}
+              {client && (
+                <ActivityTimeline client={client} portfolioId={currentPortfolio.id} network={network} />
+              )}
             </div>
           )}
+
+          {/* Viewer Mode */}
+          <div className="text-center margin-bottom">
+            <button className="button" onClick={() => setShowSharedWithMe(!showSharedWithMe)} disabled={loading}>
+              {showSharedWithMe ? '❌ Close Shared With Me' : '👁️ Shared With Me'}
+            </button>
+          </div>
+          {showSharedWithMe && client && (
+            <SharedWithMe
+              client={client}
+              account={account}
+              network={network}
+              disabled={loading || parseFloat(balance) < 0.001}
+              onRegisterKey={registerViewerKey}
+            />
+          )}
         </div>
       )}
 
       {/* Wrong Network Warning */}
-      {account && chainId !== SEPOLIA_CHAIN_ID && (
+      {account && !onSelectedNetwork && (
         <div className="status-section error">
           <h3 style={{color: '#f56565', marginBottom: '15px', fontWeight: '600'}}>⚠️ Wrong Network</h3>
-          <p>&gt; This DApp only works on Sepolia testnet</p>
+          <p>&gt; Supported networks: {SUPPORTED_NETWORKS.map(option => option.chainName).join(', ')}</p>
           <p>&gt; Current network: Chain ID {parseInt(chainId, 16)}</p>
           <div className="text-center" style={{marginTop: '15px'}}>
-            <button className="button" onClick={switchToSepolia} disabled={loading}>
-              {loading ? '🔄 Switching...' : '🔄 Switch to Sepolia'}
+            <button className="button" onClick={() => switchNetwork()} disabled={loading}>
+              {loading ? '🔄 Switching...' : `🔄 Switch to ${network.chainName}`}
             </button>
           </div>
         </div>
       )}
 
       {/* Transaction History */}
-      {transactionHistory.length > 0 && (
-        <div className="status-section">
-          <h3 style={{color: '#ffffff', marginBottom: '15px', fontWeight: '600'}}>Recent Transactions</h3>
-          {transactionHistory.slice(0, 3).map((tx, index) => (
-            <div key={tx.hash} style={{marginBottom: '10px', fontSize: '14px'}}>
-              <p>&gt; {tx.description}: <span className={tx.status === 'confirmed' ? 'success' : tx.status === 'failed' ? 'error' : 'warning'}>
-                {tx.status.toUpperCase()}
-              </span></p>
-              <p style={{fontSize: '12px', color: 'rgba(255, 255, 255, 0.6)'}}>
-                <a href={`https://sepolia.etherscan.io/tx/${tx.hash}`} target="_blank" rel="noopener noreferrer" className="highlight">
-                  {tx.hash.slice(0, 10)}...{tx.hash.slice(-8)} ↗
-                </a>
-              </p>
-            </div>
-          ))}
-        </div>
+      {sessionHistory.length > 0 && (
+        <TransactionHistory records={sessionHistory} network={network} onReplace={replaceTransaction} />
+      )}
+
+      {/* Type-to-confirm for destructive operations */}
+      {confirmation?.type === 'removeAsset' && (
+        <ConfirmDialog
+          title={`Remove ${confirmation.symbol}`}
+          phrase={confirmation.symbol}
+          confirmLabel="🗑️ Remove Asset"
+          disabled={loading}
+          onConfirm={confirmPending}
+          onCancel={() => setConfirmation(null)}
+        >
+          <p>&gt; {confirmation.symbol} and its value history will be deleted from this portfolio. This can't be undone.</p>
+        </ConfirmDialog>
+      )}
+      {confirmation?.type === 'closePortfolio' && (
+        <ConfirmDialog
+          title={`Close "${confirmation.portfolio.name}"`}
+          phrase={confirmation.portfolio.name}
+          confirmLabel="🔥 Close Portfolio"
+          disabled={loading}
+          onConfirm={confirmPending}
+          onCancel={() => setConfirmation(null)}
+        >
+          <p>&gt; All <span className="highlight gold">{confirmation.portfolio.assetCount}</span> assets, their value history
+            and every access grant will be deleted in one transaction. This can't be undone.</p>
+          <p>&gt; Viewers who already opened a shared key keep it, but can no longer read anything from the contract.</p>
+        </ConfirmDialog>
       )}
 
       {/* Loading Overlay */}
       {loading && (
         <div className="loading-overlay">
-          <div className="loading-spinner"></div>
-          <p className="loading-text">
-            {currentTransaction ? 'Processing Transaction...' : 'Loading...'}
-          </p>
+          {feeConfirmation && estimatedGas !== null && feeQuotes ? (
+            <div className="fee-confirmation">
+              <FeePreview
+                gas={estimatedGas}
+                quotes={feeQuotes}
+                tier={feeTier}
+                onSelectTier={selectFeeTier}
+                nativeSymbol={network.nativeCurrency.symbol}
+                nativePrice={nativePrice}
+              />
+              <div className="tx-actions">
+                <button className="button" onClick={() => feeConfirmation.resolve(feeTier)}>
+                  ⛽ Send
+                </button>
+                <button className="button" onClick={() => feeConfirmation.resolve(null)}>
+                  ✕ Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="loading-spinner"></div>
+              <p className="loading-text">
+                {currentTransaction ? 'Processing Transaction...' : 'Loading...'}
+              </p>
+            </>
+          )}
           {currentTransaction && (
             <p style={{fontSize: '14px', marginTop: '10px'}}>
-              Check MetaMask for transaction confirmation
+              Check {walletName} for transaction confirmation
             </p>
           )}
+          {currentTransaction?.status === 'pending' && (
+            <div className="tx-actions">
+              <button className="button" onClick={() => replaceTransaction(currentTransaction, 'speedup')}>
+                ⚡ Speed up
+              </button>
+              <button className="button" onClick={() => replaceTransaction(currentTransaction, 'cancel')}>
+                ✕ Cancel
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -1012,14 +2464,14 @@ function App() {
             <span className="spec-icon">🔗</span>
             <div className="spec-content">
               <strong>Live Blockchain DApp</strong>
-              <p>All transactions executed in real-time on Sepolia testnet</p>
+              <p>All transactions executed in real-time on {network.chainName}</p>
             </div>
           </div>
           <div className="spec-item">
             <span className="spec-icon">🔒</span>
             <div className="spec-content">
-              <strong>FHE Encryption</strong>
-              <p>Fully Homomorphic Encryption ensures complete data privacy on-chain</p>
+              <strong>Client-Side Encryption</strong>
+              <p>AES-GCM in the browser, under a key derived from your wallet signature; the chain only stores ciphertext</p>
             </div>
           </div>
           <div className="spec-item">
@@ -1038,7 +2490,7 @@ function App() {
           </div>
         </div>
         <div className="powered-by">
-          <p>✅ Powered by Zama FHE Technology | Military-Grade Encryption Standards | Open Source & Verifiable</p>
+          <p>✅ AES-256-GCM via the Web Crypto API | Keys Derived with HKDF from a Wallet Signature | Open Source & Verifiable</p>
         </div>
       </footer>
     </div>
@@ -0,0 +1,145 @@
+// Catalog of assets the user can pick when adding holdings.
+//
+// Assets come from Uniswap-style token lists (https://tokenlists.org): the
+// bundled src/tokenlist.json, the list at VITE_TOKEN_LIST_URL when set, and
+// custom assets the user defines, kept in localStorage. A list entry with
+// an empty address stands for a native asset that has no contract (BTC, SOL).
+// An asset's decimals set the scale its amounts are encrypted with.
+
+import { ethers } from 'ethers';
+import { MAX_DECIMALS, MAX_SYMBOL_LENGTH } from './sdk';
+import bundledTokenList from './tokenlist.json';
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+}
+
+export interface TokenList {
+  name: string;
+  tokens: TokenInfo[];
+}
+
+export interface CatalogAsset {
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  addresses: Record<number, string>; // contract address by chain ID
+  custom?: boolean;
+}
+
+const CUSTOM_ASSETS_STORAGE_KEY = 'confidential-portfolio:custom-assets';
+
+const env = import.meta.env;
+
+// Why an asset definition cannot be used, or null when it can
+export const catalogAssetError = (symbol: string, name: string, decimals: number): string | null => {
+  if (!symbol.trim()) return 'Enter a symbol';
+  if (ethers.toUtf8Bytes(symbol.trim()).length > MAX_SYMBOL_LENGTH) {
+    return `Symbols are limited to ${MAX_SYMBOL_LENGTH} bytes`;
+  }
+  if (!name.trim()) return 'Enter a name';
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    return `Decimals must be a whole number from 0 to ${MAX_DECIMALS}`;
+  }
+  return null;
+};
+
+// Group a token list's entries by symbol, one asset per symbol with its address
+// on every chain. Entries the contract cannot store are skipped, as are entries
+// whose decimals disagree with the first one seen for their symbol.
+export const parseTokenList = (list: TokenList): CatalogAsset[] => {
+  const assets = new Map<string, CatalogAsset>();
+  for (const token of list.tokens ?? []) {
+    const symbol = String(token.symbol ?? '').trim().toUpperCase();
+    const decimals = Number(token.decimals);
+    if (catalogAssetError(symbol, String(token.name ?? ''), decimals)) continue;
+
+    let asset = assets.get(symbol);
+    if (!asset) {
+      asset = { symbol, name: token.name.trim(), decimals, logoURI: token.logoURI, addresses: {} };
+      assets.set(symbol, asset);
+    } else if (asset.decimals !== decimals) {
+      continue;
+    }
+    asset.logoURI ??= token.logoURI;
+    if (token.address && ethers.isAddress(token.address)) {
+      asset.addresses[token.chainId] = ethers.getAddress(token.address);
+    }
+  }
+  return Array.from(assets.values());
+};
+
+export const loadCustomAssets = (): CatalogAsset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_ASSETS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored
+          .filter(asset => !catalogAssetError(String(asset.symbol ?? ''), String(asset.name ?? ''), asset.decimals))
+          .map(asset => ({ ...asset, addresses: asset.addresses ?? {}, custom: true }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomAssets = (assets: CatalogAsset[]) => {
+  localStorage.setItem(CUSTOM_ASSETS_STORAGE_KEY, JSON.stringify(assets.filter(asset => asset.custom)));
+};
+
+// Later sources win: a remote list overrides the bundled one, custom assets override both
+const mergeCatalogs = (...sources: CatalogAsset[][]): CatalogAsset[] => {
+  const merged = new Map<string, CatalogAsset>();
+  for (const asset of sources.flat()) merged.set(asset.symbol, asset);
+  return Array.from(merged.values());
+};
+
+// Bundled and custom assets, available without a network request
+export const getBundledCatalog = (): CatalogAsset[] =>
+  mergeCatalogs(parseTokenList(bundledTokenList), loadCustomAssets());
+
+// Full catalog; an unreachable remote list falls back to the bundled one
+export const loadCatalog = async (): Promise<CatalogAsset[]> => {
+  let remote: CatalogAsset[] = [];
+  if (env.VITE_TOKEN_LIST_URL) {
+    try {
+      const response = await fetch(env.VITE_TOKEN_LIST_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      remote = parseTokenList(await response.json());
+    } catch (error) {
+      console.warn('Failed to load token list:', error);
+    }
+  }
+  return mergeCatalogs(parseTokenList(bundledTokenList), remote, loadCustomAssets());
+};
+
+export const findCatalogAsset = (catalog: CatalogAsset[], symbol: string): CatalogAsset | undefined => {
+  const wanted = symbol.trim().toUpperCase();
+  return catalog.find(asset => asset.symbol === wanted);
+};
+
+// Assets whose symbol, name or address matches the query; symbol prefix matches first
+export const searchCatalog = (catalog: CatalogAsset[], query: string): CatalogAsset[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return catalog;
+
+  const rank = (asset: CatalogAsset) => {
+    const symbol = asset.symbol.toLowerCase();
+    if (symbol === q) return 0;
+    if (symbol.startsWith(q)) return 1;
+    if (symbol.includes(q) || asset.name.toLowerCase().includes(q)) return 2;
+    if (Object.values(asset.addresses).some(address => address.toLowerCase() === q)) return 3;
+    return -1;
+  };
+
+  return catalog
+    .map(asset => ({ asset, rank: rank(asset) }))
+    .filter(match => match.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.asset.symbol.localeCompare(b.asset.symbol))
+    .map(match => match.asset);
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface AccountSwitcherProps {
+  accounts: string[]; // recently used, most recent first
+  current: string;
+  disabled: boolean;
+  onSwitch: (address: string) => void;
+  onForget: (address: string) => void;
+}
+
+const shorten = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Recently used accounts, to jump between the portfolios a user manages
+function AccountSwitcher({ accounts, current, disabled, onSwitch, onForget }: AccountSwitcherProps) {
+  const others = accounts.filter(address => address.toLowerCase() !== current.toLowerCase());
+  if (others.length === 0) return null;
+
+  return (
+    <div className="account-switcher">
+      <p>&gt; Recent Accounts:</p>
+      <div className="account-list">
+        {others.map(address => (
+          <span key={address} className="account-chip">
+            <button className="edit-asset" onClick={() => onSwitch(address)} disabled={disabled} title={address}>
+              🔁 {shorten(address)}
+            </button>
+            <button className="remove-asset" onClick={() => onForget(address)} disabled={disabled} title="Forget this account">
+              ✕
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default AccountSwitcher;
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { ActivityEvent, ActivityIndexer, ActivityType, PortfolioClient, mergeActivity } from '../sdk';
+import { NetworkConfig, getExplorerTxUrl } from '../networks';
+
+interface ActivityTimelineProps {
+  client: PortfolioClient;
+  portfolioId: number;
+  network: NetworkConfig;
+}
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  create: '🚀 Portfolio Created',
+  rename: '🏷️ Portfolio Renamed',
+  close: '🔥 Portfolio Closed',
+  add: '💰 Asset Added',
+  update: '✏️ Asset Updated',
+  remove: '🗑️ Asset Removed'
+};
+
+// Full portfolio history rebuilt from contract events, kept live as blocks arrive
+function ActivityTimeline({ client, portfolioId, network }: ActivityTimelineProps) {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [status, setStatus] = useState<string>('');
+  const [typeFilter, setTypeFilter] = useState<ActivityType | 'all'>('all');
+  const [symbolFilter, setSymbolFilter] = useState<string>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    let unfollow: (() => void) | undefined;
+    const indexer = new ActivityIndexer(client);
+
+    const load = async () => {
+      try {
+        setEvents([]);
+        setStatus('🔄 Scanning contract events...');
+
+        const latestBlock = await client.getBlockNumber();
+        const history = await indexer.fetch(portfolioId, {
+          fromBlock: network.deploymentBlock,
+          toBlock: latestBlock,
+          onProgress: (found, scannedDownTo) => {
+            if (!cancelled) {
+              setEvents(found);
+              setStatus(`🔄 Scanning contract events... (block ${scannedDownTo})`);
+            }
+          }
+        });
+        if (cancelled) return;
+
+        setEvents(history);
+        setStatus('');
+        unfollow = indexer.follow(portfolioId, latestBlock + 1, (incoming) => {
+          setEvents(prev => mergeActivity(prev, incoming));
+        });
+      } catch (error) {
+        console.error('Failed to load activity:', error);
+        if (!cancelled) setStatus('❌ Failed to load portfolio activity');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      unfollow?.();
+    };
+  }, [client, portfolioId, network]);
+
+  const symbols = Array.from(new Set(events.map(event => event.symbol).filter((s): s is string => !!s))).sort();
+  const visibleEvents = events.filter(event =>
+    (typeFilter === 'all' || event.type === typeFilter) &&
+    (symbolFilter === 'all' || event.symbol === symbolFilter)
+  );
+
+  return (
+    <div className="status-section activity-timeline">
+      <div className="portfolio-header">
+        <h3>🕘 Activity Timeline</h3>
+        <div className="activity-filters">
+          <select
+            className="network-select"
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as ActivityType | 'all')}
+          >
+            <option value="all">All activity</option>
+            <option value="create">Created</option>
+            <option value="rename">Renamed</option>
+            <option value="close">Closed</option>
+            <option value="add">Added</option>
+            <option value="update">Updated</option>
+            <option value="remove">Removed</option>
+          </select>
+          <select
+            className="network-select"
+            value={symbolFilter}
+            onChange={(e) => setSymbolFilter(e.target.value)}
+          >
+            <option value="all">All assets</option>
+            {symbols.map(symbol => (
+              <option key={symbol} value={symbol}>{symbol}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {status && <p>&gt; {status}</p>}
+
+      {visibleEvents.length === 0 && !status && (
+        <p>&gt; No activity matches the selected filters</p>
+      )}
+
+      <div className="activity-list">
+        {visibleEvents.map(event => {
+          const txUrl = getExplorerTxUrl(network, event.transactionHash);
+          return (
+            <div key={`${event.transactionHash}:${event.logIndex}`} className={`activity-item ${event.type}`}>
+              <div className="activity-main">
+                <span className="activity-label">{ACTIVITY_LABELS[event.type]}</span>
+                {event.symbol && <span className="highlight">{event.symbol}</span>}
+                {event.name && <span className="highlight">{event.name}</span>}
+              </div>
+              <div className="activity-meta">
+                <span className="last-update">
+                  {event.timestamp.toLocaleDateString('en-US')} at {event.timestamp.toLocaleTimeString('en-US', {hour: '2-digit', minute: '2-digit'})} · Block {event.blockNumber}
+                </span>
+                {txUrl ? (
+                  <a href={txUrl} target="_blank" rel="noopener noreferrer" className="highlight">
+                    {event.transactionHash.slice(0, 10)}...{event.transactionHash.slice(-8)} ↗
+                  </a>
+                ) : (
+                  <span className="highlight">{event.transactionHash.slice(0, 10)}...{event.transactionHash.slice(-8)}</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default ActivityTimeline;
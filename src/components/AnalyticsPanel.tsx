@@ -0,0 +1,122 @@
+import React from 'react';
+import { Asset, AssetRecord, VALUE_DECIMALS, analyzePortfolio, findStaleAssets, formatFixedPoint } from '../sdk';
+
+interface AnalyticsPanelProps {
+  records: AssetRecord[];
+  holdings: Asset[] | null; // decrypted; null while holdings are hidden
+  onChainTotal: bigint | null; // getEncryptedTotalValue, decrypted
+  staleAfterDays: number;
+  onChangeStaleAfter: (days: number) => void;
+}
+
+const TOP_HOLDINGS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SLICE_COLORS = ['#48bb78', '#f6ad55', '#63b3ed', '#b794f4', '#fc8181', '#4fd1c5', '#f687b3', '#a0aec0'];
+
+const percent = (share: number) => `${(share * 100).toFixed(2)}%`;
+const usd = (value: bigint) => `$${formatFixedPoint(value, VALUE_DECIMALS, VALUE_DECIMALS)}`;
+
+// Everything "others" beyond the palette shares the last color
+const sliceColor = (index: number) => SLICE_COLORS[Math.min(index, SLICE_COLORS.length - 1)];
+
+// Allocation, concentration and staleness of the portfolio, computed from locally decrypted values
+function AnalyticsPanel({ records, holdings, onChainTotal, staleAfterDays, onChangeStaleAfter }: AnalyticsPanelProps) {
+  const stale = findStaleAssets(records, staleAfterDays * DAY_MS);
+  const analytics = holdings ? analyzePortfolio(holdings) : null;
+  const totalMismatch = analytics && onChainTotal !== null && analytics.totalValue !== onChainTotal;
+
+  return (
+    <div className="status-section analytics-panel">
+      <div className="form-header">
+        <h3>📈 Portfolio Analytics</h3>
+        <div className="security-badge">
+          <span>🔓 Computed Locally</span>
+        </div>
+      </div>
+
+      {!analytics ? (
+        <p>&gt; Reveal your holdings to see the total, allocation and concentration.</p>
+      ) : (
+        <>
+          <p>&gt; Total Value: <span className="highlight gold">{usd(onChainTotal ?? analytics.totalValue)}</span>
+            {onChainTotal !== null && !totalMismatch && <span className="last-update"> ✅ matches the contract's total</span>}
+          </p>
+          {totalMismatch && (
+            <p style={{color: '#f56565'}}>
+              ⚠️ Asset values add up to {usd(analytics.totalValue)}, but the contract's total decrypts to {usd(onChainTotal!)}
+            </p>
+          )}
+
+          {analytics.totalValue > BigInt(0) && (
+            <>
+              <div className="allocation-bar">
+                {analytics.allocation.map((slice, index) => (
+                  <div
+                    key={slice.symbol}
+                    className="allocation-slice"
+                    style={{ width: percent(slice.share), background: sliceColor(index) }}
+                    title={`${slice.symbol}: ${percent(slice.share)}`}
+                  />
+                ))}
+              </div>
+              <div className="allocation-legend">
+                {analytics.allocation.map((slice, index) => (
+                  <span key={slice.symbol}>
+                    <span className="legend-dot" style={{ background: sliceColor(index) }} />
+                    {slice.symbol} {percent(slice.share)}
+                  </span>
+                ))}
+              </div>
+
+              <h4 className="analytics-heading">🏆 Top Holdings</h4>
+              {analytics.allocation.slice(0, TOP_HOLDINGS).map((slice, index) => (
+                <div key={slice.symbol} className="holding-row">
+                  <span className="highlight">{index + 1}. {slice.symbol}</span>
+                  <div className="holding-bar">
+                    <div style={{ width: percent(slice.share), background: sliceColor(index) }} />
+                  </div>
+                  <span className="gold">{usd(slice.value)}</span>
+                  <span>{percent(slice.share)}</span>
+                </div>
+              ))}
+
+              <h4 className="analytics-heading">🎯 Concentration</h4>
+              <p>&gt; Largest Holding: <span className="highlight">{percent(analytics.concentration.largestShare)}</span></p>
+              <p>&gt; Top 3 Holdings: <span className="highlight">{percent(analytics.concentration.top3Share)}</span></p>
+              <p>&gt; Herfindahl Index: <span className="highlight">{analytics.concentration.herfindahlIndex.toFixed(4)}</span>
+                <span className="last-update"> ≈ {analytics.concentration.effectiveHoldings.toFixed(1)} equally sized holdings</span>
+              </p>
+            </>
+          )}
+        </>
+      )}
+
+      <h4 className="analytics-heading">⏰ Staleness</h4>
+      <p>&gt; Warn when an asset hasn't been updated for{' '}
+        <input
+          type="number"
+          min="1"
+          step="1"
+          className="input-field stale-days"
+          value={staleAfterDays}
+          onChange={(e) => {
+            const days = parseInt(e.target.value, 10);
+            if (days > 0) onChangeStaleAfter(days);
+          }}
+        />{' '}days
+      </p>
+      {stale.length === 0 ? (
+        <p>&gt; <span className="highlight emerald">All assets were updated in the last {staleAfterDays} days</span></p>
+      ) : (
+        stale.map(asset => (
+          <p key={asset.symbol} className="warning">
+            ⚠️ {asset.symbol} was last updated {Math.floor(asset.ageMs / DAY_MS)} days ago ({asset.lastUpdate.toLocaleDateString()})
+          </p>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default AnalyticsPanel;
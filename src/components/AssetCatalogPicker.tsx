@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { CatalogAsset, catalogAssetError, searchCatalog } from '../catalog';
+
+interface AssetCatalogPickerProps {
+  catalog: CatalogAsset[];
+  selected: string; // symbol in the add form
+  disabled: boolean;
+  onSelect: (asset: CatalogAsset) => void;
+  onAddCustom: (asset: CatalogAsset) => void;
+  onRemoveCustom: (symbol: string) => void;
+}
+
+// Results shown at once; searching narrows the rest down
+const MAX_RESULTS = 24;
+
+// Search the asset catalog, or define an asset it does not list
+function AssetCatalogPicker({ catalog, selected, disabled, onSelect, onAddCustom, onRemoveCustom }: AssetCatalogPickerProps) {
+  const [query, setQuery] = useState<string>('');
+  const [showCustom, setShowCustom] = useState<boolean>(false);
+  const [customSymbol, setCustomSymbol] = useState<string>('');
+  const [customName, setCustomName] = useState<string>('');
+  const [customDecimals, setCustomDecimals] = useState<string>('18');
+
+  const results = searchCatalog(catalog, query);
+  const customError = catalogAssetError(customSymbol, customName, Number(customDecimals));
+
+  const openCustom = () => {
+    setShowCustom(!showCustom);
+    setCustomSymbol(query.trim().toUpperCase());
+    setCustomName('');
+  };
+
+  const addCustom = () => {
+    if (customError) return;
+    onAddCustom({
+      symbol: customSymbol.trim().toUpperCase(),
+      name: customName.trim(),
+      decimals: Number(customDecimals),
+      addresses: {},
+      custom: true
+    });
+    setShowCustom(false);
+    setQuery('');
+  };
+
+  return (
+    <div className="preset-assets">
+      <p className="preset-title">🎯 Pick an Asset:</p>
+      <div className="catalog-search">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by symbol, name or contract address"
+          className="input-field"
+          disabled={disabled}
+        />
+        <button className="button" type="button" onClick={openCustom} disabled={disabled}>
+          ➕ Custom Asset
+        </button>
+      </div>
+
+      {showCustom && (
+        <div className="catalog-custom-form">
+          <input
+            type="text"
+            value={customSymbol}
+            onChange={(e) => setCustomSymbol(e.target.value.toUpperCase())}
+            placeholder="Symbol"
+            className="input-field"
+            disabled={disabled}
+          />
+          <input
+            type="text"
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+            placeholder="Name"
+            className="input-field"
+            disabled={disabled}
+          />
+          <input
+            type="number"
+            value={customDecimals}
+            onChange={(e) => setCustomDecimals(e.target.value)}
+            placeholder="Decimals"
+            className="input-field"
+            step="1"
+            min="0"
+            disabled={disabled}
+          />
+          <button className="button" type="button" onClick={addCustom} disabled={disabled || !!customError}>
+            💾 Save
+          </button>
+          {(customSymbol || customName) && customError && <p className="warning">⚠️ {customError}</p>}
+        </div>
+      )}
+
+      <div className="asset-presets">
+        {results.slice(0, MAX_RESULTS).map(asset => (
+          <button
+            key={asset.symbol}
+            className={`preset-btn catalog-asset ${selected === asset.symbol ? 'selected' : ''}`}
+            onClick={() => onSelect(asset)}
+            type="button"
+            disabled={disabled}
+            title={`${asset.name} · ${asset.decimals} decimals${asset.custom ? ' · custom' : ''}`}
+          >
+            {asset.logoURI && <img src={asset.logoURI} alt="" className="catalog-logo" loading="lazy" />}
+            <span>{asset.symbol}</span>
+            <span className="catalog-name">{asset.name}</span>
+            {asset.custom && (
+              <span
+                className="catalog-remove"
+                role="button"
+                title={`Remove custom asset ${asset.symbol}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!disabled) onRemoveCustom(asset.symbol);
+                }}
+              >
+                ✕
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      {results.length === 0 && <p>&gt; No asset matches "{query}". Add it as a custom asset, or type its symbol below.</p>}
+      {results.length > MAX_RESULTS && <p className="last-update">Showing {MAX_RESULTS} of {results.length}, search to narrow down.</p>}
+    </div>
+  );
+}
+
+export default AssetCatalogPicker;
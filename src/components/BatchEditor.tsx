@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { AssetChangeType, MAX_BATCH_SIZE, MAX_SYMBOL_LENGTH, VALUE_DECIMALS, fixedPointError, validateAssetChanges } from '../sdk';
+
+// A pending change as typed into the editor; amount and value are unscaled decimals
+export interface BatchRow {
+  id: number;
+  type: AssetChangeType;
+  symbol: string;
+  amount: string;
+  value: string;
+}
+
+interface BatchEditorProps {
+  symbols: string[]; // symbols currently held
+  disabled: boolean;
+  amountDecimalsOf: (symbol: string) => number;
+  onEstimate: (rows: BatchRow[]) => void;
+  onSubmit: (rows: BatchRow[]) => Promise<boolean>; // resolves true once the batch is confirmed
+}
+
+let nextRowId = 1;
+
+const emptyRow = (): BatchRow => ({ id: nextRowId++, type: 'add', symbol: '', amount: '', value: '' });
+
+// Per-row problems: contract rules first, then the amount and value fields
+const validateRows = (
+  rows: BatchRow[],
+  symbols: string[],
+  amountDecimalsOf: (symbol: string) => number
+): (string | null)[] => {
+  const contractErrors = validateAssetChanges(rows, symbols);
+
+  return rows.map((row, index) => {
+    if (contractErrors[index]) return contractErrors[index];
+    if (row.type === 'remove') return null;
+    return fixedPointError(row.amount, amountDecimalsOf(row.symbol), 'Amount') ??
+      fixedPointError(row.value, VALUE_DECIMALS, 'USD value');
+  });
+};
+
+// Collects several adds, updates and removals and submits them as one transaction
+function BatchEditor({ symbols, disabled, amountDecimalsOf, onEstimate, onSubmit }: BatchEditorProps) {
+  const [rows, setRows] = useState<BatchRow[]>(() => [emptyRow()]);
+
+  const errors = validateRows(rows, symbols, amountDecimalsOf);
+  const valid = rows.length > 0 && rows.length <= MAX_BATCH_SIZE && errors.every(error => error === null);
+
+  const updateRow = (id: number, patch: Partial<BatchRow>) => {
+    setRows(prev => prev.map(row => row.id === id ? { ...row, ...patch } : row));
+  };
+
+  const removeRow = (id: number) => {
+    setRows(prev => prev.filter(row => row.id !== id));
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, emptyRow()]);
+  };
+
+  const submit = async () => {
+    if (await onSubmit(rows)) {
+      setRows([emptyRow()]);
+    }
+  };
+
+  return (
+    <div className="status-section batch-editor">
+      <div className="form-header">
+        <h3>🧾 Batch Changes</h3>
+        <div className="security-badge">
+          <span>⛓️ One Transaction</span>
+        </div>
+      </div>
+
+      <div className="batch-rows">
+        {rows.map((row, index) => (
+          <div key={row.id} className={`batch-row ${errors[index] ? 'invalid' : ''}`}>
+            <select
+              className="network-select"
+              value={row.type}
+              onChange={(e) => updateRow(row.id, { type: e.target.value as AssetChangeType })}
+              disabled={disabled}
+            >
+              <option value="add">Add</option>
+              <option value="update">Update</option>
+              <option value="remove">Remove</option>
+            </select>
+            {row.type === 'add' ? (
+              <input
+                type="text"
+                value={row.symbol}
+                onChange={(e) => updateRow(row.id, { symbol: e.target.value.toUpperCase() })}
+                placeholder="Symbol"
+                className="input-field"
+                disabled={disabled}
+                maxLength={MAX_SYMBOL_LENGTH}
+              />
+            ) : (
+              <select
+                className="network-select"
+                value={row.symbol}
+                onChange={(e) => updateRow(row.id, { symbol: e.target.value })}
+                disabled={disabled}
+              >
+                <option value="">Select asset</option>
+                {symbols.map(symbol => (
+                  <option key={symbol} value={symbol}>{symbol}</option>
+                ))}
+              </select>
+            )}
+            {row.type !== 'remove' && (
+              <>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={row.amount}
+                  onChange={(e) => updateRow(row.id, { amount: e.target.value })}
+                  placeholder="Amount"
+                  className="input-field"
+                  disabled={disabled}
+                />
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={row.value}
+                  onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                  placeholder="USD Value"
+                  className="input-field"
+                  disabled={disabled}
+                />
+              </>
+            )}
+            <button className="remove-asset" onClick={() => removeRow(row.id)} disabled={disabled}>
+              ✕
+            </button>
+            {errors[index] && <p className="batch-row-error">⚠️ {errors[index]}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="form-actions">
+        <button className="button" onClick={addRow} disabled={disabled || rows.length >= MAX_BATCH_SIZE}>
+          ➕ Add Row
+        </button>
+        <button className="button" onClick={() => onEstimate(rows)} disabled={disabled || !valid}>
+          ⛽ Estimate Gas
+        </button>
+        <button className="button encrypt-asset-btn" onClick={submit} disabled={disabled || !valid}>
+          {disabled ? '⏳ Submitting...' : `🔒 Encrypt & Submit ${rows.length} Change${rows.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default BatchEditor;
@@ -0,0 +1,64 @@
+import React, { useState, useEffect } from 'react';
+
+interface ConfirmDialogProps {
+  title: string;
+  phrase: string; // must be typed exactly to enable the confirm button
+  confirmLabel: string;
+  disabled: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  children: React.ReactNode;
+}
+
+// Type-to-confirm guard for destructive, irreversible operations
+function ConfirmDialog({ title, phrase, confirmLabel, disabled, onConfirm, onCancel, children }: ConfirmDialogProps) {
+  const [typed, setTyped] = useState<string>('');
+  const matches = typed === phrase;
+
+  // Escape backs out, like any dialog
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onCancel]);
+
+  return (
+    <div className="confirm-overlay" onClick={onCancel}>
+      <div className="status-section confirm-dialog" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+        <div className="form-header">
+          <h3>⚠️ {title}</h3>
+          <div className="security-badge">
+            <span>🔥 Irreversible</span>
+          </div>
+        </div>
+
+        {children}
+
+        <p>&gt; Type <span className="highlight">{phrase}</span> to confirm:</p>
+        <input
+          type="text"
+          className="input-field"
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && matches && !disabled && onConfirm()}
+          autoFocus
+          autoComplete="off"
+          spellCheck={false}
+        />
+
+        <div className="form-actions">
+          <button className="remove-asset" onClick={onConfirm} disabled={disabled || !matches}>
+            {confirmLabel}
+          </button>
+          <button className="button" onClick={onCancel}>
+            ❌ Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConfirmDialog;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import {
+  PortfolioClient,
+  PortfolioKey,
+  SignedSnapshot,
+  createSnapshot,
+  describeError,
+  signSnapshot,
+  snapshotToCsv,
+  snapshotToJson,
+  verifySnapshot
+} from '../sdk';
+
+interface ExportPanelProps {
+  client: PortfolioClient;
+  account: string;
+  portfolioId: number;
+  getEncryptionKey: () => Promise<PortfolioKey>;
+}
+
+// Save a file generated in the browser
+const download = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start reading the blob only after click() returns; revoking at once can cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
+
+// Export decrypted holdings to CSV or JSON, optionally signed, and check signed snapshots
+function ExportPanel({ client, account, portfolioId, getEncryptionKey }: ExportPanelProps) {
+  const [sign, setSign] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+
+  const exportSnapshot = async (format: 'csv' | 'json') => {
+    try {
+      setBusy(true);
+      const key = await getEncryptionKey();
+
+      setStatus('🔓 Decrypting holdings locally...');
+      const snapshot = await createSnapshot(client, portfolioId, key);
+      const baseName = `portfolio-${account.slice(0, 8)}-${portfolioId}-${snapshot.chainId}-${snapshot.blockNumber}`;
+
+      if (format === 'csv') {
+        download(`${baseName}.csv`, snapshotToCsv(snapshot), 'text/csv');
+      } else if (sign) {
+        setStatus('✍️ Please sign the snapshot in your wallet...');
+        download(`${baseName}.json`, snapshotToJson(await signSnapshot(client.getSigner(), snapshot)), 'application/json');
+      } else {
+        download(`${baseName}.json`, snapshotToJson(snapshot), 'application/json');
+      }
+      setStatus(`✅ Exported ${snapshot.assets.length} assets at block ${snapshot.blockNumber}`);
+    } catch (err) {
+      console.error('Export failed:', err);
+      setStatus(`❌ ${describeError(err, 'Failed to export portfolio')}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const verifyFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const snapshot: SignedSnapshot = JSON.parse(await file.text());
+      if (!snapshot.signature) {
+        setStatus(`⚠️ ${file.name} is not signed`);
+      } else if (verifySnapshot(snapshot)) {
+        setStatus(`✅ ${file.name} was signed by ${snapshot.owner} at block ${snapshot.blockNumber} on chain ${snapshot.chainId}`);
+      } else {
+        setStatus(`❌ ${file.name} has an invalid signature or was modified after signing`);
+      }
+    } catch (error) {
+      console.error('Failed to read snapshot:', error);
+      setStatus(`❌ ${file.name} is not a portfolio snapshot`);
+    }
+  };
+
+  return (
+    <div className="status-section export-panel">
+      <div className="form-header">
+        <h3>📤 Export Portfolio</h3>
+        <div className="security-badge">
+          <span>🔏 EIP-712 Signed</span>
+        </div>
+      </div>
+
+      <p>&gt; Exports contain your decrypted holdings. Store them as carefully as your wallet.</p>
+
+      <label className="import-option">
+        <input type="checkbox" checked={sign} onChange={(e) => setSign(e.target.checked)} disabled={busy} />
+        Sign JSON snapshots with your wallet so recipients can verify them
+      </label>
+
+      <div className="form-actions">
+        <button className="button" onClick={() => exportSnapshot('csv')} disabled={busy}>
+          📄 Export CSV
+        </button>
+        <button className="button" onClick={() => exportSnapshot('json')} disabled={busy}>
+          {sign ? '🔏 Export Signed JSON' : '🧾 Export JSON'}
+        </button>
+      </div>
+
+      <div className="input-group">
+        <label className="input-label">🔍 Verify a signed snapshot</label>
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="input-field"
+          onChange={(e) => verifyFile(e.target.files?.[0])}
+          disabled={busy}
+        />
+      </div>
+
+      {status && <p>&gt; {status}</p>}
+    </div>
+  );
+}
+
+export default ExportPanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { Price, VALUE_DECIMALS } from '../sdk';
+import { FEE_TIERS, FeeQuote, FeeTier, expectedCost, weiToFiat } from '../fees';
+
+interface FeePreviewProps {
+  gas: bigint;
+  quotes: Record<FeeTier, FeeQuote>;
+  tier: FeeTier;
+  onSelectTier: (tier: FeeTier) => void;
+  nativeSymbol: string;
+  nativePrice: Price | null; // fiat cost is left out without it
+}
+
+const TIER_LABELS: Record<FeeTier, string> = {
+  slow: '🐢 Slow',
+  normal: '🚗 Normal',
+  fast: '🚀 Fast'
+};
+
+const gwei = (wei: bigint) => Number(ethers.formatUnits(wei, 'gwei')).toFixed(2);
+
+// Estimated gas and the cost of each speed tier; a transaction is sent with the tier selected when the user confirms it
+function FeePreview({ gas, quotes, tier, onSelectTier, nativeSymbol, nativePrice }: FeePreviewProps) {
+  return (
+    <div className="status-section">
+      <h3 style={{color: '#ffffff', marginBottom: '10px', fontWeight: '600'}}>Gas Estimation</h3>
+      <p>&gt; Estimated Gas: <span className="highlight">{gas.toString()}</span></p>
+
+      <div className="fee-tiers">
+        {FEE_TIERS.map(option => {
+          const quote = quotes[option];
+          const cost = expectedCost(gas, quote);
+          const fees = 'maxFeePerGas' in quote.overrides
+            ? `max ${gwei(quote.overrides.maxFeePerGas)} gwei · tip ${gwei(quote.overrides.maxPriorityFeePerGas)} gwei`
+            : `${gwei(quote.overrides.gasPrice)} gwei`;
+          return (
+            <button
+              key={option}
+              className={`fee-tier ${option === tier ? 'selected' : ''}`}
+              onClick={() => onSelectTier(option)}
+            >
+              <strong>{TIER_LABELS[option]}</strong>
+              <span className="highlight">{Number(ethers.formatEther(cost)).toFixed(6)} {nativeSymbol}</span>
+              {nativePrice && (
+                <span className="gold">≈ ${ethers.formatUnits(weiToFiat(cost, nativePrice), VALUE_DECIMALS)}</span>
+              )}
+              <span className="last-update">{fees}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default FeePreview;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { ImportPlanItem, MAX_BATCH_SIZE, ParsedHoldings, fixedPointError, parseHoldingsFile, planImport } from '../sdk';
+import { BatchRow } from './BatchEditor';
+import ConfirmDialog from './ConfirmDialog';
+
+interface ImportPanelProps {
+  symbols: string[]; // symbols currently held
+  disabled: boolean;
+  amountDecimalsOf: (symbol: string) => number;
+  onSubmit: (rows: BatchRow[]) => Promise<boolean>; // resolves true once every change is confirmed
+}
+
+const PLAN_LABELS: Record<ImportPlanItem['type'], string> = {
+  add: '➕ Add',
+  update: '✏️ Update',
+  remove: '🗑️ Remove'
+};
+
+// Upload a CSV or JSON file of holdings, review the reconcile plan, then run it
+function ImportPanel({ symbols, disabled, amountDecimalsOf, onSubmit }: ImportPanelProps) {
+  const [fileName, setFileName] = useState<string>('');
+  const [parsed, setParsed] = useState<ParsedHoldings | null>(null);
+  const [removeMissing, setRemoveMissing] = useState<boolean>(false);
+  const [confirmingRemovals, setConfirmingRemovals] = useState<boolean>(false);
+
+  const plan = parsed ? planImport(parsed.holdings, symbols, removeMissing) : [];
+  // Amounts with more digits than their asset's decimals, or too large to store
+  const amountErrors = plan
+    .filter(item => item.type !== 'remove')
+    .map(item => fixedPointError(item.amount, amountDecimalsOf(item.symbol), `${item.symbol}: amount`))
+    .filter((error): error is string => error !== null);
+  const removals = plan.filter(item => item.type === 'remove').map(item => item.symbol);
+  // The whole plan goes in one transaction so it applies all-or-nothing
+  const tooLarge = plan.length > MAX_BATCH_SIZE;
+  const canRun = parsed !== null && parsed.errors.length === 0 && amountErrors.length === 0 && plan.length > 0 && !tooLarge;
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseHoldingsFile(file.name, await file.text()));
+  };
+
+  const run = async () => {
+    setConfirmingRemovals(false);
+    const rows: BatchRow[] = plan.map((item, index) => ({ id: index, ...item }));
+    if (await onSubmit(rows)) {
+      setParsed(null);
+      setFileName('');
+    }
+  };
+
+  return (
+    <div className="status-section import-panel">
+      <div className="form-header">
+        <h3>📥 Import Holdings</h3>
+        <div className="security-badge">
+          <span>📄 CSV / JSON</span>
+        </div>
+      </div>
+
+      <div className="input-group">
+        <label className="input-label">Holdings file (symbol, amount, value)</label>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="input-field"
+          onChange={(e) => loadFile(e.target.files?.[0])}
+          disabled={disabled}
+        />
+      </div>
+
+      <label className="import-option">
+        <input
+          type="checkbox"
+          checked={removeMissing}
+          onChange={(e) => setRemoveMissing(e.target.checked)}
+          disabled={disabled}
+        />
+        Remove held assets that are not in the file
+      </label>
+
+      {parsed && parsed.errors.length > 0 && (
+        <div className="warning-box">
+          <p>⚠️ {fileName} has {parsed.errors.length} invalid row{parsed.errors.length === 1 ? '' : 's'}; fix the file and upload it again:</p>
+          {parsed.errors.map((error, index) => (
+            <p key={index}>&gt; {error.line > 0 ? `Row ${error.line}: ` : ''}{error.message}</p>
+          ))}
+        </div>
+      )}
+
+      {amountErrors.length > 0 && (
+        <div className="warning-box">
+          {amountErrors.map(error => <p key={error}>⚠️ {error}</p>)}
+        </div>
+      )}
+
+      {tooLarge && (
+        <div className="warning-box">
+          <p>⚠️ This import needs {plan.length} changes, but one transaction can apply at most {MAX_BATCH_SIZE}.
+            Split the file so each part is applied in full.</p>
+        </div>
+      )}
+
+      {parsed && parsed.errors.length === 0 && (
+        <div className="import-plan">
+          <p className="preset-title">
+            🧾 Plan for {fileName}: {plan.filter(item => item.type === 'add').length} to add,{' '}
+            {plan.filter(item => item.type === 'update').length} to update,{' '}
+            {plan.filter(item => item.type === 'remove').length} to remove
+          </p>
+          {plan.map(item => (
+            <div key={item.symbol} className={`activity-item ${item.type}`}>
+              <div className="activity-main">
+                <span className="activity-label">{PLAN_LABELS[item.type]}</span>
+                <span className="highlight">{item.symbol}</span>
+                {item.type !== 'remove' && (
+                  <span className="last-update">{item.amount} · ${item.value}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="form-actions">
+        <button
+          className="button encrypt-asset-btn"
+          onClick={() => (removals.length > 0 ? setConfirmingRemovals(true) : run())}
+          disabled={disabled || !canRun}
+        >
+          {disabled ? '⏳ Importing...' : '🔒 Encrypt & Run Import'}
+        </button>
+      </div>
+
+      {confirmingRemovals && (
+        <ConfirmDialog
+          title={`Remove ${removals.length} asset${removals.length === 1 ? '' : 's'}`}
+          phrase={`remove ${removals.length}`}
+          confirmLabel="🗑️ Run Import"
+          disabled={disabled}
+          onConfirm={run}
+          onCancel={() => setConfirmingRemovals(false)}
+        >
+          <p>&gt; This import deletes <span className="highlight gold">{removals.join(', ')}</span> and their value history,
+            because they are not in {fileName}. This can't be undone.</p>
+        </ConfirmDialog>
+      )}
+    </div>
+  );
+}
+
+export default ImportPanel;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { MAX_PORTFOLIOS, MAX_PORTFOLIO_NAME_LENGTH, PortfolioInfo } from '../sdk';
+
+interface PortfolioSwitcherProps {
+  portfolios: PortfolioInfo[];
+  currentId: number;
+  disabled: boolean;
+  onSelect: (portfolioId: number) => void;
+  onCreate: (name: string) => Promise<boolean>;
+  onRename: (portfolioId: number, name: string) => Promise<boolean>;
+  onClose: (portfolioId: number) => void;
+}
+
+// The contract limits names by their UTF-8 byte length
+export const portfolioNameError = (name: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Enter a portfolio name';
+  if (ethers.toUtf8Bytes(trimmed).length > MAX_PORTFOLIO_NAME_LENGTH) {
+    return `Names are limited to ${MAX_PORTFOLIO_NAME_LENGTH} bytes`;
+  }
+  return null;
+};
+
+// Pick, create, rename and close the connected account's portfolios
+function PortfolioSwitcher({ portfolios, currentId, disabled, onSelect, onCreate, onRename, onClose }: PortfolioSwitcherProps) {
+  const [mode, setMode] = useState<'create' | 'rename' | null>(null);
+  const [name, setName] = useState<string>('');
+
+  const current = portfolios.find(portfolio => portfolio.id === currentId);
+  const nameError = mode ? portfolioNameError(name) : null;
+  const atLimit = portfolios.length >= MAX_PORTFOLIOS;
+
+  const open = (next: 'create' | 'rename') => {
+    setMode(mode === next ? null : next);
+    setName(next === 'rename' && current ? current.name : '');
+  };
+
+  const submit = async () => {
+    if (!mode || nameError) return;
+    const done = mode === 'create' ? await onCreate(name.trim()) : await onRename(currentId, name.trim());
+    if (done) {
+      setMode(null);
+      setName('');
+    }
+  };
+
+  return (
+    <div className="portfolio-switcher">
+      <p>&gt; Portfolio:{' '}
+        <select
+          className="network-select"
+          value={currentId}
+          onChange={(e) => onSelect(Number(e.target.value))}
+          disabled={disabled}
+        >
+          {portfolios.map(portfolio => (
+            <option key={portfolio.id} value={portfolio.id}>
+              {portfolio.name} · {portfolio.assetCount} asset{portfolio.assetCount === 1 ? '' : 's'}
+            </option>
+          ))}
+        </select>
+        <button className="edit-asset" onClick={() => open('rename')} disabled={disabled || !current}>
+          ✏️ Rename
+        </button>
+        <button
+          className="edit-asset"
+          onClick={() => open('create')}
+          disabled={disabled || atLimit}
+          title={atLimit ? `An account can have up to ${MAX_PORTFOLIOS} portfolios` : undefined}
+        >
+          ➕ New
+        </button>
+        <button className="remove-asset" onClick={() => onClose(currentId)} disabled={disabled || !current}>
+          🔥 Close
+        </button>
+      </p>
+
+      {mode && (
+        <div className="portfolio-name-form">
+          <input
+            type="text"
+            className="input-field"
+            placeholder={mode === 'create' ? 'New portfolio name, e.g. Long-term' : 'New name'}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submit()}
+            autoFocus
+          />
+          <button className="button" onClick={submit} disabled={disabled || !!nameError}>
+            {mode === 'create' ? '🚀 Create' : '💾 Save'}
+          </button>
+          <button className="button" onClick={() => setMode(null)} disabled={disabled}>
+            ❌ Cancel
+          </button>
+          {name && nameError && <p className="warning">⚠️ {nameError}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PortfolioSwitcher;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import {
+  VALUE_DECIMALS,
+  Asset,
+  PortfolioClient,
+  SharedPortfolio,
+  ViewerKey,
+  deriveViewerKey,
+  describeError,
+  formatFixedPoint,
+  findSharedPortfolios,
+  getSharedAssets,
+  openGrants
+} from '../sdk';
+import { NetworkConfig } from '../networks';
+
+interface SharedWithMeProps {
+  client: PortfolioClient;
+  account: string;
+  network: NetworkConfig;
+  disabled: boolean;
+  onRegisterKey: (publicKey: string) => Promise<boolean>;
+}
+
+const shorten = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const portfolioKeyOf = (portfolio: SharedPortfolio) => `${portfolio.owner}:${portfolio.portfolioId}`;
+
+// Viewer mode: portfolios other accounts have shared with this one, opened with the viewer key
+function SharedWithMe({ client, account, network, disabled, onRegisterKey }: SharedWithMeProps) {
+  const [registeredKey, setRegisteredKey] = useState<string | null>(null);
+  const [viewerKey, setViewerKey] = useState<ViewerKey | null>(null);
+  const [shared, setShared] = useState<SharedPortfolio[]>([]);
+  const [opened, setOpened] = useState<Record<string, Asset[]>>({});
+  const [busy, setBusy] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setViewerKey(null);
+        setOpened({});
+        setStatus('🔄 Looking for portfolios shared with you...');
+        const [key, portfolios] = await Promise.all([
+          client.getViewerKey(account),
+          findSharedPortfolios(client, account, network.deploymentBlock)
+        ]);
+        if (cancelled) return;
+
+        setRegisteredKey(key);
+        setShared(portfolios);
+        setStatus('');
+      } catch (error) {
+        console.error('Failed to load shared portfolios:', error);
+        if (!cancelled) setStatus(`❌ ${describeError(error, 'Failed to load shared portfolios')}`);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, account, network]);
+
+  // The viewer key comes from a signature, so it is only asked for when needed
+  const unlockViewerKey = async (): Promise<ViewerKey> => {
+    if (viewerKey) return viewerKey;
+    setStatus('✍️ Please sign the message in your wallet to unlock your viewer key...');
+    const key = await deriveViewerKey(client.getSigner());
+    setViewerKey(key);
+    return key;
+  };
+
+  const register = async () => {
+    try {
+      setBusy(true);
+      const key = await unlockViewerKey();
+      setStatus('');
+      if (await onRegisterKey(key.publicKey)) {
+        setRegisteredKey(key.publicKey);
+      }
+    } catch (error) {
+      console.error('Failed to register viewer key:', error);
+      setStatus(`❌ ${describeError(error, 'Failed to register viewer key')}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const open = async (portfolio: SharedPortfolio) => {
+    try {
+      setBusy(true);
+      const key = await unlockViewerKey();
+
+      setStatus(`🔓 Opening ${shorten(portfolio.owner)}'s "${portfolio.name}" locally...`);
+      const portfolioKey = await openGrants(key, portfolio.owner, portfolio.portfolioId, portfolio.grants);
+      if (!portfolioKey) {
+        setStatus('⚠️ Your access to this portfolio has expired');
+        return;
+      }
+
+      const assets = await getSharedAssets(client, portfolio.portfolioId, portfolioKey);
+      setOpened(prev => ({ ...prev, [portfolioKeyOf(portfolio)]: assets }));
+      setStatus('');
+    } catch (error) {
+      console.error('Failed to open shared portfolio:', error);
+      setStatus(`❌ ${describeError(error, 'Failed to open shared portfolio')}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const keyMismatch = !!registeredKey && !!viewerKey && registeredKey.toLowerCase() !== viewerKey.publicKey.toLowerCase();
+
+  return (
+    <div className="status-section shared-with-me">
+      <div className="form-header">
+        <h3>👁️ Shared With Me</h3>
+        <div className="security-badge">
+          <span>🔒 Read Only</span>
+        </div>
+      </div>
+
+      {!registeredKey ? (
+        <>
+          <p>&gt; Register a viewer key so other accounts can share their portfolios with you.
+            It is derived from a signature and never leaves your browser; only its public half goes on-chain.</p>
+          <div className="form-actions">
+            <button className="button" onClick={register} disabled={disabled || busy}>
+              🔑 Register Viewer Key
+            </button>
+          </div>
+        </>
+      ) : (
+        <p>&gt; Viewer key: <span className="highlight">registered</span></p>
+      )}
+
+      {keyMismatch && (
+        <p style={{color: '#f56565'}}>
+          ⚠️ The registered viewer key doesn't match this wallet's signature. Register again, then ask owners to re-share.
+        </p>
+      )}
+
+      {registeredKey && shared.length === 0 && !status && (
+        <p>&gt; No portfolios are shared with you yet.</p>
+      )}
+
+      {shared.map(portfolio => (
+        <div key={portfolioKeyOf(portfolio)} className="shared-portfolio">
+          <div className="portfolio-header">
+            <p>&gt; <span className="highlight" title={portfolio.owner}>{shorten(portfolio.owner)}</span>{' '}
+              <span className="gold">{portfolio.name}</span>{' '}
+              {portfolio.grants.map(grant => grant.symbol || 'whole portfolio').join(', ')}
+            </p>
+            <button className="edit-asset" onClick={() => open(portfolio)} disabled={busy}>
+              🔓 Open
+            </button>
+          </div>
+
+          {opened[portfolioKeyOf(portfolio)] && (
+            <div className="grant-list">
+              {opened[portfolioKeyOf(portfolio)].map(asset => (
+                <div key={asset.symbol} className="grant-item">
+                  <span className="highlight">{asset.symbol}</span>
+                  <span>{formatFixedPoint(asset.amount, asset.decimals)}</span>
+                  <span className="gold">${formatFixedPoint(asset.value, VALUE_DECIMALS, VALUE_DECIMALS)}</span>
+                  <span className="last-update">{asset.lastUpdate.toLocaleString()}</span>
+                </div>
+              ))}
+              {opened[portfolioKeyOf(portfolio)].length === 0 && <p>&gt; No readable assets.</p>}
+            </div>
+          )}
+
+          <p className="last-update">
+            Access until {new Date(Math.min(...portfolio.grants.map(grant => grant.expiresAt.getTime()))).toLocaleString()}
+            {portfolio.grants.length > 1 ? ' (earliest grant)' : ''}
+          </p>
+        </div>
+      ))}
+
+      {status && <p>&gt; {status}</p>}
+    </div>
+  );
+}
+
+export default SharedWithMe;
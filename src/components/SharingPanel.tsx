@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { AccessGrant, PortfolioClient } from '../sdk';
+
+interface SharingPanelProps {
+  client: PortfolioClient;
+  account: string;
+  portfolioId: number;
+  symbols: string[];
+  disabled: boolean;
+  onGrant: (viewer: string, symbol: string, expiresAt: Date) => Promise<boolean>;
+  onRevoke: (viewer: string, symbol: string) => Promise<boolean>;
+}
+
+const DEFAULT_DURATION_DAYS = 30;
+
+const shorten = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// yyyy-mm-dd for a date input, in local time
+const toDateInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+};
+
+// Give auditors or other viewers expiring read access to the whole portfolio or single assets
+function SharingPanel({ client, account, portfolioId, symbols, disabled, onGrant, onRevoke }: SharingPanelProps) {
+  const [grants, setGrants] = useState<AccessGrant[]>([]);
+  const [status, setStatus] = useState<string>('');
+  const [viewer, setViewer] = useState<string>('');
+  const [scope, setScope] = useState<string>('');
+  const [expiry, setExpiry] = useState<string>(() =>
+    toDateInput(new Date(Date.now() + DEFAULT_DURATION_DAYS * 24 * 60 * 60 * 1000))
+  );
+
+  const loadGrants = useCallback(async () => {
+    try {
+      setGrants(await client.getGrants(portfolioId));
+      setStatus('');
+    } catch (error) {
+      console.error('Failed to load grants:', error);
+      setStatus('❌ Failed to load access grants');
+    }
+  }, [client, portfolioId]);
+
+  useEffect(() => {
+    loadGrants();
+  }, [loadGrants]);
+
+  // A symbol may have been removed since the scope was picked
+  const validScope = scope === '' || symbols.includes(scope) ? scope : '';
+  const expiresAt = new Date(`${expiry}T23:59:59`);
+  const validViewer = ethers.isAddress(viewer) && viewer.toLowerCase() !== account.toLowerCase();
+  const canGrant = validViewer && expiresAt > new Date();
+
+  const grant = async () => {
+    if (await onGrant(ethers.getAddress(viewer), validScope, expiresAt)) {
+      setViewer('');
+      await loadGrants();
+    }
+  };
+
+  const revoke = async (grant: AccessGrant) => {
+    if (await onRevoke(grant.viewer, grant.symbol)) {
+      await loadGrants();
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="status-section sharing-panel">
+      <div className="form-header">
+        <h3>👥 Share With Viewers</h3>
+        <div className="security-badge">
+          <span>🔐 Sealed Keys</span>
+        </div>
+      </div>
+
+      <p>&gt; Viewers get your decryption key sealed to their viewer key. Revoking stops the contract
+        from serving your ciphertexts, but keys a viewer already opened can't be taken back.</p>
+
+      <div className="input-group">
+        <label className="input-label">👤 Viewer Address</label>
+        <input
+          type="text"
+          placeholder="0x..."
+          className="input-field"
+          value={viewer}
+          onChange={(e) => setViewer(e.target.value.trim())}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="input-group">
+        <label className="input-label">📂 Access</label>
+        <select className="input-field" value={validScope} onChange={(e) => setScope(e.target.value)} disabled={disabled}>
+          <option value="">Whole portfolio</option>
+          {symbols.map(symbol => (
+            <option key={symbol} value={symbol}>{symbol} only</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="input-group">
+        <label className="input-label">⏳ Expires</label>
+        <input
+          type="date"
+          className="input-field"
+          value={expiry}
+          min={toDateInput(new Date())}
+          onChange={(e) => setExpiry(e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="form-actions">
+        <button className="button" onClick={grant} disabled={disabled || !canGrant}>
+          🔑 Grant Access
+        </button>
+      </div>
+
+      {grants.length > 0 ? (
+        <div className="grant-list">
+          {grants.map(grant => {
+            const expired = grant.expiresAt <= now;
+            return (
+              <div key={`${grant.viewer}:${grant.symbol}`} className={`grant-item ${expired ? 'expired' : ''}`}>
+                <span title={grant.viewer}>{shorten(grant.viewer)}</span>
+                <span className="highlight">{grant.symbol || 'Whole portfolio'}</span>
+                <span className="last-update">
+                  {expired ? 'Expired' : 'Until'} {grant.expiresAt.toLocaleString()}
+                </span>
+                <button className="remove-asset" onClick={() => revoke(grant)} disabled={disabled} title="Revoke access">
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p>&gt; No viewers have access to this portfolio.</p>
+      )}
+
+      {status && <p>&gt; {status}</p>}
+    </div>
+  );
+}
+
+export default SharingPanel;
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { NetworkConfig, getExplorerTxUrl } from '../networks';
+import { ReplacementMode, TransactionRecord } from '../transactions';
+
+interface TransactionHistoryProps {
+  records: TransactionRecord[]; // newest first
+  network: NetworkConfig;
+  onReplace: (record: TransactionRecord, mode: ReplacementMode) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const STATUS_CLASSES: Record<TransactionRecord['status'], string> = {
+  pending: 'warning',
+  confirmed: 'success',
+  failed: 'error',
+  dropped: 'error',
+  replaced: 'highlight',
+  cancelled: 'error'
+};
+
+// Every transaction sent from this account on this network, a page at a time
+function TransactionHistory({ records, network, onReplace }: TransactionHistoryProps) {
+  const [page, setPage] = useState<number>(0);
+
+  const pageCount = Math.max(1, Math.ceil(records.length / PAGE_SIZE));
+  const visible = records.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  // Stay on a valid page when the history shrinks, e.g. after switching networks
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+
+  return (
+    <div className="status-section transaction-history">
+      <h3 style={{color: '#ffffff', marginBottom: '15px', fontWeight: '600'}}>Transaction History</h3>
+
+      <div className="tx-table">
+        <div className="tx-row tx-head">
+          <span>Operation</span>
+          <span>Status</span>
+          <span>Gas Used</span>
+          <span>Fee ({network.nativeCurrency.symbol})</span>
+          <span>Transaction</span>
+        </div>
+        {visible.map(tx => {
+          const txUrl = getExplorerTxUrl(network, tx.hash);
+          const shortHash = `${tx.hash.slice(0, 10)}...${tx.hash.slice(-8)}`;
+          return (
+            <div key={tx.hash} className="tx-row">
+              <span>
+                {tx.description}
+                <span className="last-update"> · {new Date(tx.submittedAt).toLocaleString('en-US')}</span>
+              </span>
+              <span className={STATUS_CLASSES[tx.status]}>
+                {tx.status.toUpperCase()}
+                {tx.status === 'pending' && (
+                  <span className="tx-actions">
+                    <button className="edit-asset" onClick={() => onReplace(tx, 'speedup')}>⚡ Speed up</button>
+                    <button className="remove-asset" onClick={() => onReplace(tx, 'cancel')}>✕ Cancel</button>
+                  </span>
+                )}
+              </span>
+              <span>{tx.gasUsed ?? '—'}</span>
+              <span title={tx.effectiveGasPrice ? `${ethers.formatUnits(tx.effectiveGasPrice, 'gwei')} gwei` : undefined}>
+                {tx.fee ? Number(ethers.formatEther(tx.fee)).toFixed(6) : '—'}
+              </span>
+              {txUrl ? (
+                <a href={txUrl} target="_blank" rel="noopener noreferrer" className="highlight">{shortHash} ↗</a>
+              ) : (
+                <span className="highlight">{shortHash}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="tx-pagination">
+          <button className="button" onClick={() => setPage(page - 1)} disabled={page === 0}>
+            ◀ Newer
+          </button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <button className="button" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+            Older ▶
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TransactionHistory;
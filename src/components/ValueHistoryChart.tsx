@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import {
+  AssetRecord,
+  AssetValueHistory,
+  MAX_CHECKPOINTS,
+  PortfolioClient,
+  PortfolioKey,
+  VALUE_DECIMALS,
+  ValuePoint,
+  describeError,
+  formatFixedPoint,
+  portfolioValueHistory
+} from '../sdk';
+
+interface ValueHistoryChartProps {
+  client: PortfolioClient;
+  portfolioId: number;
+  records: AssetRecord[];
+  encryptionKey: PortfolioKey;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 12;
+
+const usd = (value: bigint) => `$${formatFixedPoint(value, VALUE_DECIMALS, VALUE_DECIMALS)}`;
+
+// SVG path of the series as a step line: the value holds until the next checkpoint
+const toStepPath = (series: ValuePoint[], maxValue: bigint) => {
+  const first = series[0].timestamp.getTime();
+  const span = Math.max(series[series.length - 1].timestamp.getTime() - first, 1);
+  const x = (point: ValuePoint) => PADDING + (point.timestamp.getTime() - first) / span * (WIDTH - 2 * PADDING);
+  const y = (point: ValuePoint) =>
+    HEIGHT - PADDING - (maxValue > BigInt(0) ? Number(point.value * BigInt(1000) / maxValue) / 1000 : 0) * (HEIGHT - 2 * PADDING);
+
+  const points = series.map(point => ({ x: x(point), y: y(point), point }));
+  const path = points
+    .map((p, i) => (i === 0 ? `M ${p.x} ${p.y}` : `H ${p.x} V ${p.y}`))
+    .join(' ');
+  return { path, points };
+};
+
+// Portfolio value over time, rebuilt from the contract's value checkpoints decrypted in the browser
+function ValueHistoryChart({ client, portfolioId, records, encryptionKey }: ValueHistoryChartProps) {
+  const [series, setSeries] = useState<ValuePoint[]>([]);
+  const [truncated, setTruncated] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setStatus('🔓 Decrypting value checkpoints locally...');
+        const histories: AssetValueHistory[] = await Promise.all(records.map(async record => {
+          const points = await client.getValueHistory(portfolioId, record.symbol, encryptionKey);
+          return { symbol: record.symbol, points, truncated: points.length >= MAX_CHECKPOINTS };
+        }));
+        if (cancelled) return;
+
+        setSeries(portfolioValueHistory(histories));
+        setTruncated(histories.some(history => history.truncated));
+        setStatus('');
+      } catch (error) {
+        console.error('Failed to load value history:', error);
+        if (!cancelled) setStatus(`❌ ${describeError(error, 'Failed to load value history')}`);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, portfolioId, encryptionKey, records]);
+
+  const maxValue = series.reduce((max, point) => (point.value > max ? point.value : max), BigInt(0));
+  const chart = series.length > 0 ? toStepPath(series, maxValue) : null;
+
+  return (
+    <div className="status-section value-history">
+      <h3 style={{color: '#ffffff', marginBottom: '10px', fontWeight: '600'}}>📉 Value Over Time</h3>
+
+      {chart && (
+        <>
+          <svg className="value-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+            <path d={chart.path} fill="none" stroke="#48bb78" strokeWidth="2" />
+            {chart.points.map(({ x, y, point }) => (
+              <circle key={point.timestamp.getTime()} cx={x} cy={y} r="3" fill="#f6ad55">
+                <title>{point.timestamp.toLocaleString()}: {usd(point.value)}</title>
+              </circle>
+            ))}
+          </svg>
+          <div className="value-chart-axis">
+            <span>{series[0].timestamp.toLocaleDateString()}</span>
+            <span className="gold">Peak {usd(maxValue)} · Now {usd(series[series.length - 1].value)}</span>
+            <span>{series[series.length - 1].timestamp.toLocaleDateString()}</span>
+          </div>
+        </>
+      )}
+
+      {!chart && !status && <p>&gt; No value checkpoints yet.</p>}
+      <p className="last-update">
+        Built from the last {MAX_CHECKPOINTS} adds and updates of each current asset; removed assets drop out of the history.
+        {truncated && ' Some assets have more updates than that, so the chart starts at the oldest one still kept for all of them.'}
+      </p>
+      {status && <p>&gt; {status}</p>}
+    </div>
+  );
+}
+
+export default ValueHistoryChart;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  VALUE_DECIMALS,
+  AccessGrant,
+  Asset,
+  AssetRecord,
+  PortfolioClient,
+  PortfolioInfo,
+  deriveViewerKey,
+  describeError,
+  formatFixedPoint,
+  getSharedAssets,
+  openGrants
+} from '../sdk';
+import { NetworkConfig, createReadProvider, getExplorerAddressUrl } from '../networks';
+import { getWatchUrl } from '../watch';
+
+interface WatchPortfolioProps {
+  address: string;
+  network: NetworkConfig;
+  walletClient: PortfolioClient | null; // connected wallet on this network, to open what its grants cover
+  account: string | null;
+  onStop: () => void;
+}
+
+interface WatchedPortfolio {
+  info: PortfolioInfo;
+  records: AssetRecord[];
+  grants: AccessGrant[];
+}
+
+const shorten = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Read-only view of any portfolio through the network's JSON-RPC endpoint.
+// Public metadata needs no wallet; amounts show only where a connected
+// wallet holds an active grant.
+function WatchPortfolio({ address, network, walletClient, account, onStop }: WatchPortfolioProps) {
+  const [portfolios, setPortfolios] = useState<PortfolioInfo[] | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [portfolio, setPortfolio] = useState<WatchedPortfolio | null>(null);
+  const [decrypted, setDecrypted] = useState<Record<string, Asset>>({});
+  const [busy, setBusy] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+
+  const readClient = useMemo(
+    () => new PortfolioClient(network.contractAddress, createReadProvider(network)),
+    [network]
+  );
+
+  const load = useCallback(async () => {
+    try {
+      setStatus(`🔄 Reading ${shorten(address)} from ${network.chainName}...`);
+      const owned = await readClient.getPortfolios(address);
+      setPortfolios(owned);
+      // Keep the selection across refreshes while it still exists
+      setSelectedId(prev => (owned.some(info => info.id === prev) ? prev : owned[0]?.id ?? null));
+      setStatus('');
+    } catch (error) {
+      console.error('Failed to read watched portfolios:', error);
+      setStatus(`❌ ${describeError(error, 'Failed to read portfolios')}`);
+    }
+  }, [readClient, address, network]);
+
+  useEffect(() => {
+    setPortfolios(null);
+    setSelectedId(null);
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPortfolio(null);
+    setDecrypted({});
+    const info = portfolios?.find(candidate => candidate.id === selectedId);
+    if (!info) return;
+
+    const loadPortfolio = async () => {
+      try {
+        const [records, grants] = await Promise.all([readClient.getAssetRecords(info.id), readClient.getGrants(info.id)]);
+        if (!cancelled) setPortfolio({ info, records, grants });
+      } catch (error) {
+        console.error('Failed to read watched portfolio:', error);
+        if (!cancelled) setStatus(`❌ ${describeError(error, 'Failed to read portfolio')}`);
+      }
+    };
+
+    loadPortfolio();
+    return () => {
+      cancelled = true;
+    };
+  }, [readClient, portfolios, selectedId]);
+
+  const now = new Date();
+  const myGrants = account && portfolio
+    ? portfolio.grants.filter(grant => grant.viewer.toLowerCase() === account.toLowerCase() && grant.expiresAt > now)
+    : [];
+
+  // Decryption goes through the wallet's client: the contract only serves
+  // ciphertexts to callers with access, so the call must come from the viewer
+  const decrypt = async () => {
+    if (!walletClient || !portfolio) return;
+    try {
+      setBusy(true);
+      setStatus('✍️ Please sign the message in your wallet to unlock your viewer key...');
+      const viewerKey = await deriveViewerKey(walletClient.getSigner());
+
+      setStatus('🔓 Decrypting shared assets locally...');
+      const key = await openGrants(viewerKey, address, portfolio.info.id, myGrants);
+      if (!key) {
+        setStatus('⚠️ Your access to this portfolio has expired');
+        return;
+      }
+      const assets = await getSharedAssets(walletClient, portfolio.info.id, key);
+      setDecrypted(Object.fromEntries(assets.map(asset => [asset.symbol, asset])));
+      setStatus('');
+    } catch (error) {
+      console.error('Failed to decrypt watched portfolio:', error);
+      setStatus(`❌ ${describeError(error, 'Failed to decrypt shared assets')}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getWatchUrl(address, network.chainId));
+      setStatus('🔗 Watch link copied');
+    } catch {
+      setStatus(`🔗 ${getWatchUrl(address, network.chainId)}`);
+    }
+  };
+
+  const explorerUrl = getExplorerAddressUrl(network, address);
+
+  return (
+    <div className="status-section watch-portfolio">
+      <div className="portfolio-header">
+        <h3>👀 Watching {shorten(address)}</h3>
+        <div className="portfolio-header-actions">
+          <button className="edit-asset" onClick={load} disabled={busy}>🔄 Refresh</button>
+          <button className="edit-asset" onClick={copyLink}>🔗 Copy Link</button>
+          <button className="remove-asset" onClick={onStop}>✕ Stop</button>
+        </div>
+      </div>
+
+      <p>&gt; Address: {explorerUrl ? (
+        <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="highlight">{address} ↗</a>
+      ) : (
+        <span className="highlight">{address}</span>
+      )}</p>
+      <p>&gt; Network: <span className="highlight">{network.chainName}</span> (read-only)</p>
+
+      {portfolios && portfolios.length === 0 && (
+        <p>&gt; Portfolio State: <span className="highlight">🔴 Not Created</span></p>
+      )}
+
+      {portfolios && portfolios.length > 0 && (
+        <p>&gt; Portfolio:{' '}
+          <select
+            className="network-select"
+            value={selectedId ?? ''}
+            onChange={(e) => setSelectedId(Number(e.target.value))}
+          >
+            {portfolios.map(info => (
+              <option key={info.id} value={info.id}>{info.name} (#{info.id})</option>
+            ))}
+          </select>
+        </p>
+      )}
+
+      {portfolio && (
+        <>
+          <p>&gt; Created: <span className="highlight">{portfolio.info.createdAt.toLocaleString()}</span></p>
+          <p>&gt; Asset Count: <span className="highlight gold">{portfolio.info.assetCount}</span></p>
+
+          <div className="grant-list">
+            {portfolio.records.map(record => {
+              const asset = decrypted[record.symbol];
+              return (
+                <div key={record.symbol} className="grant-item">
+                  <span className="highlight">{record.symbol}</span>
+                  <span>{asset ? formatFixedPoint(asset.amount, asset.decimals) : '🔒 Encrypted'}</span>
+                  <span className="gold">{asset ? `$${formatFixedPoint(asset.value, VALUE_DECIMALS, VALUE_DECIMALS)}` : ''}</span>
+                  <span className="last-update">{record.lastUpdate.toLocaleString()}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {myGrants.length > 0 && walletClient && (
+            <div className="form-actions">
+              <button className="button" onClick={decrypt} disabled={busy}>
+                🔓 Decrypt What {shorten(account!)} Can View
+              </button>
+            </div>
+          )}
+          {myGrants.length > 0 && !walletClient && (
+            <p>&gt; Switch your wallet to {network.chainName} to decrypt what you've been granted.</p>
+          )}
+          {myGrants.length === 0 && (
+            <p>&gt; Amounts and values stay encrypted. Connect a wallet this portfolio is shared with to view them.</p>
+          )}
+        </>
+      )}
+
+      {status && <p>&gt; {status}</p>}
+    </div>
+  );
+}
+
+export default WatchPortfolio;
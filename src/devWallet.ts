@@ -0,0 +1,106 @@
+// Development-only EIP-1193 provider that signs with a private key and talks
+// straight to a local JSON-RPC node (e.g. `npx hardhat node`), so the whole
+// app can be exercised without a browser extension. Never use a real key.
+
+import { ethers } from 'ethers';
+import type { EIP1193Provider } from './wallets';
+
+// EIP-1193 error shape, so callers can check `code` as they would for an extension
+const providerError = (code: number, message: string) => Object.assign(new Error(message), { code });
+
+interface RequestArguments {
+  method: string;
+  params?: unknown[];
+}
+
+type RpcObject = Record<string, unknown>;
+
+const isRpcObject = (value: unknown): value is RpcObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Positional parameters, checked the way a node would before using them
+const stringParam = (params: unknown[], index: number): string => {
+  const value = params[index];
+  if (typeof value !== 'string') throw providerError(-32602, `Parameter ${index} must be a string`);
+  return value;
+};
+
+const objectParam = (params: unknown[], index: number): RpcObject => {
+  const value = params[index];
+  if (!isRpcObject(value)) throw providerError(-32602, `Parameter ${index} must be an object`);
+  return value;
+};
+
+// Hex quantities and data are strings in JSON-RPC; anything else is left unset
+const optionalString = (object: RpcObject, key: string): string | undefined =>
+  typeof object[key] === 'string' ? object[key] : undefined;
+
+export const createDevWallet = (rpcUrl: string, privateKey: string): EIP1193Provider => {
+  // No request cache: back-to-back sends must each see the latest nonce
+  const rpc = new ethers.JsonRpcProvider(rpcUrl, undefined, { cacheTimeout: -1 });
+  const wallet = new ethers.Wallet(privateKey, rpc);
+
+  const handle = async ({ method, params }: RequestArguments): Promise<unknown> => {
+    const args = Array.isArray(params) ? params : [];
+
+    switch (method) {
+      case 'eth_requestAccounts':
+      case 'eth_accounts':
+        return [wallet.address];
+
+      case 'personal_sign':
+        return wallet.signMessage(ethers.getBytes(stringParam(args, 0)));
+
+      case 'eth_signTypedData_v4': {
+        const { domain, types, message } = JSON.parse(stringParam(args, 1));
+        delete types.EIP712Domain; // ethers derives it from the domain
+        return wallet.signTypedData(domain, types, message);
+      }
+
+      case 'eth_sendTransaction': {
+        const tx = objectParam(args, 0);
+        const nonce = optionalString(tx, 'nonce');
+        const response = await wallet.sendTransaction({
+          to: optionalString(tx, 'to'),
+          data: optionalString(tx, 'data'),
+          value: optionalString(tx, 'value'),
+          gasLimit: optionalString(tx, 'gas'),
+          nonce: nonce !== undefined ? Number(nonce) : undefined,
+          gasPrice: optionalString(tx, 'gasPrice'),
+          maxFeePerGas: optionalString(tx, 'maxFeePerGas'),
+          maxPriorityFeePerGas: optionalString(tx, 'maxPriorityFeePerGas')
+        });
+        return response.hash;
+      }
+
+      case 'wallet_switchEthereumChain': {
+        const chainId = await rpc.send('eth_chainId', []);
+        const requested = optionalString(objectParam(args, 0), 'chainId');
+        if (requested === undefined) throw providerError(-32602, 'chainId must be a hex string');
+        if (BigInt(requested) !== BigInt(chainId)) {
+          throw providerError(4901, `Dev signer is connected to chain ${BigInt(chainId)} only`);
+        }
+        return null;
+      }
+
+      case 'wallet_addEthereumChain':
+        throw providerError(4200, 'Dev signer cannot add networks');
+
+      default:
+        return rpc.send(method, args);
+    }
+  };
+
+  const request = async (args: RequestArguments): Promise<unknown> => {
+    try {
+      return await handle(args);
+    } catch (error) {
+      // Hand back the node's own JSON-RPC error, as an extension would
+      const info = isRpcObject(error) ? error.info : undefined;
+      throw (isRpcObject(info) ? info.error : undefined) ?? error;
+    }
+  };
+
+  // Account and chain never change, so there is nothing to emit
+  return { request, on: () => {}, removeListener: () => {} };
+};
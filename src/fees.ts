@@ -0,0 +1,85 @@
+// Fee tiers offered before sending a transaction.
+//
+// On EIP-1559 networks each tier tips the priority fee paid at a percentile of
+// recent blocks (eth_feeHistory) and allows up to twice the next base fee, so
+// the transaction stays valid through several full blocks. Networks without
+// fee history fall back to the legacy gas price, scaled per tier.
+
+import { ethers } from 'ethers';
+import { Price, computeValue } from './sdk';
+
+export type FeeTier = 'slow' | 'normal' | 'fast';
+
+export const FEE_TIERS: FeeTier[] = ['slow', 'normal', 'fast'];
+
+export type FeeOverrides =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint };
+
+export interface FeeQuote {
+  tier: FeeTier;
+  overrides: FeeOverrides;
+  expectedGasPrice: bigint; // what a unit of gas will likely cost: next base fee plus tip, or the gas price
+}
+
+const HISTORY_BLOCKS = 20;
+const TIER_PERCENTILES: Record<FeeTier, number> = { slow: 10, normal: 50, fast: 90 };
+const LEGACY_MULTIPLIERS: Record<FeeTier, number> = { slow: 90, normal: 100, fast: 125 }; // percent
+const NATIVE_DECIMALS = 18; // wei per ether
+
+const median = (values: bigint[]): bigint => {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)] ?? BigInt(0);
+};
+
+const fromFeeHistory = async (provider: ethers.JsonRpcApiProvider): Promise<FeeQuote[] | null> => {
+  const percentiles = FEE_TIERS.map(tier => TIER_PERCENTILES[tier]);
+  const history = await provider.send('eth_feeHistory', [ethers.toQuantity(HISTORY_BLOCKS), 'latest', percentiles]);
+
+  // The last base fee is the one of the next block
+  const baseFees: string[] = history?.baseFeePerGas ?? [];
+  const rewards: string[][] = history?.reward ?? [];
+  if (baseFees.length === 0 || rewards.length === 0) return null;
+  const nextBaseFee = BigInt(baseFees[baseFees.length - 1]);
+
+  return FEE_TIERS.map((tier, index) => {
+    const maxPriorityFeePerGas = median(rewards.map(reward => BigInt(reward[index])));
+    return {
+      tier,
+      overrides: { maxFeePerGas: nextBaseFee * BigInt(2) + maxPriorityFeePerGas, maxPriorityFeePerGas },
+      expectedGasPrice: nextBaseFee + maxPriorityFeePerGas
+    };
+  });
+};
+
+const fromGasPrice = async (provider: ethers.Provider): Promise<FeeQuote[]> => {
+  const { gasPrice } = await provider.getFeeData();
+  return FEE_TIERS.map(tier => {
+    const price = (gasPrice ?? BigInt(0)) * BigInt(LEGACY_MULTIPLIERS[tier]) / BigInt(100);
+    return { tier, overrides: { gasPrice: price }, expectedGasPrice: price };
+  });
+};
+
+// Slow, normal and fast fee quotes for the next transaction
+export const estimateFeeTiers = async (provider: ethers.JsonRpcApiProvider): Promise<Record<FeeTier, FeeQuote>> => {
+  let quotes: FeeQuote[] | null = null;
+  try {
+    quotes = await fromFeeHistory(provider);
+  } catch (error) {
+    console.warn('Fee history unavailable, using the legacy gas price:', error);
+  }
+  quotes ??= await fromGasPrice(provider);
+
+  return {
+    slow: quotes[0],
+    normal: quotes[1],
+    fast: quotes[2]
+  };
+};
+
+// Likely cost in wei of `gas` units at a quote
+export const expectedCost = (gas: bigint, quote: FeeQuote): bigint => gas * quote.expectedGasPrice;
+
+// Fiat value, scaled to VALUE_DECIMALS, of an amount of wei at the native currency's price
+export const weiToFiat = (wei: bigint, price: Price): bigint =>
+  computeValue(wei, price, NATIVE_DECIMALS);
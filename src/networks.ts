@@ -0,0 +1,126 @@
+// Registry of networks the ConfidentialPortfolio contract is deployed to.
+//
+// To support a new chain, deploy the contract there (see scripts/deploy.js)
+// and add an entry below. Entries without a contract address are skipped,
+// so optional deployments can be configured through VITE_* env variables.
+
+import { ethers } from 'ethers';
+import { ChainlinkFeed } from './sdk';
+
+export interface NetworkConfig {
+  chainId: string; // hex, as returned by eth_chainId
+  chainName: string;
+  contractAddress: string;
+  rpcUrls: string[];
+  readRpcUrl?: string; // keyless endpoint for reading without a wallet; defaults to rpcUrls[0]
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  blockExplorerUrl?: string;
+  faucetUrl?: string;
+  deploymentBlock?: number; // lower bound when scanning contract events
+  priceFeeds?: Record<string, ChainlinkFeed>; // Chainlink USD aggregators by asset symbol
+}
+
+const env = import.meta.env;
+
+// First contract deployed by the default Hardhat account lands at this address
+const HARDHAT_DEFAULT_CONTRACT_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+export const SEPOLIA_CHAIN_ID = '0xaa36a7';
+export const HARDHAT_CHAIN_ID = '0x7a69';
+export const BASE_SEPOLIA_CHAIN_ID = '0x14a34';
+
+const NETWORKS: NetworkConfig[] = [
+  {
+    chainId: SEPOLIA_CHAIN_ID,
+    chainName: 'Sepolia Test Network',
+    // No default: the earlier Sepolia deployment predates portfolio IDs, so the
+    // network stays disabled until a current deployment is configured
+    contractAddress: env.VITE_SEPOLIA_CONTRACT_ADDRESS || '',
+    rpcUrls: ['https://sepolia.infura.io/v3/', 'https://rpc.sepolia.org'],
+    readRpcUrl: env.VITE_SEPOLIA_RPC_URL || 'https://rpc.sepolia.org',
+    nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+    blockExplorerUrl: 'https://sepolia.etherscan.io/',
+    faucetUrl: 'https://sepoliafaucet.com/',
+    deploymentBlock: Number(env.VITE_SEPOLIA_DEPLOYMENT_BLOCK) || undefined,
+    priceFeeds: {
+      BTC: { address: '0x1b44F3514812d835EB1BDB0acB33d3fA3351Ee43', heartbeatSeconds: 3600 },
+      ETH: { address: '0x694AA1769357215DE4FAC081bF1f309aDC325306', heartbeatSeconds: 3600 },
+      LINK: { address: '0xc59E3633BAAC79493d908e63626716e204A45EdF', heartbeatSeconds: 3600 }
+    }
+  },
+  {
+    chainId: BASE_SEPOLIA_CHAIN_ID,
+    chainName: 'Base Sepolia',
+    contractAddress: env.VITE_BASE_SEPOLIA_CONTRACT_ADDRESS || '',
+    rpcUrls: ['https://sepolia.base.org'],
+    nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+    blockExplorerUrl: 'https://sepolia.basescan.org/',
+    faucetUrl: 'https://docs.base.org/docs/tools/network-faucets'
+  },
+  {
+    chainId: HARDHAT_CHAIN_ID,
+    chainName: 'Hardhat Local',
+    contractAddress: env.VITE_HARDHAT_CONTRACT_ADDRESS || HARDHAT_DEFAULT_CONTRACT_ADDRESS,
+    rpcUrls: [env.VITE_HARDHAT_RPC_URL || 'http://127.0.0.1:8545'],
+    nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+    deploymentBlock: 0
+  }
+];
+
+export const SUPPORTED_NETWORKS = NETWORKS.filter(network => network.contractAddress !== '');
+
+export const DEFAULT_NETWORK = SUPPORTED_NETWORKS[0];
+
+// Look up a supported network by its hex chain id (case-insensitive)
+export const getNetwork = (chainId: string): NetworkConfig | undefined =>
+  SUPPORTED_NETWORKS.find(network => network.chainId.toLowerCase() === chainId.toLowerCase());
+
+export const isSupportedChain = (chainId: string) => getNetwork(chainId) !== undefined;
+
+// Plain JSON-RPC provider for reading the contract when no wallet is connected
+export const createReadProvider = (network: NetworkConfig) =>
+  new ethers.JsonRpcProvider(network.readRpcUrl ?? network.rpcUrls[0], Number(network.chainId), { staticNetwork: true });
+
+export const getExplorerAddressUrl = (network: NetworkConfig, address: string) =>
+  network.blockExplorerUrl ? `${network.blockExplorerUrl}address/${address}` : undefined;
+
+export const getExplorerTxUrl = (network: NetworkConfig, hash: string) =>
+  network.blockExplorerUrl ? `${network.blockExplorerUrl}tx/${hash}` : undefined;
+
+// Parameters for wallet_addEthereumChain (EIP-3085)
+export const toAddChainParams = (network: NetworkConfig) => ({
+  chainId: network.chainId,
+  chainName: network.chainName,
+  rpcUrls: network.rpcUrls,
+  nativeCurrency: network.nativeCurrency,
+  ...(network.blockExplorerUrl ? { blockExplorerUrls: [network.blockExplorerUrl] } : {})
+});
+
+// Ask the wallet to switch to a network, adding it first if the wallet doesn't know it
+export const switchWalletNetwork = async (ethereum: any, network: NetworkConfig) => {
+  try {
+    await ethereum.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: network.chainId }],
+    });
+  } catch (switchError: any) {
+    if (switchError.code !== 4902) {
+      throw switchError;
+    }
+
+    // Network not added, add it
+    try {
+      await ethereum.request({
+        method: 'wallet_addEthereumChain',
+        params: [toAddChainParams(network)]
+      });
+    } catch (addError) {
+      console.error(`Failed to add ${network.chainName}:`, addError);
+      throw new Error(`Failed to add ${network.chainName}`);
+    }
+  }
+};
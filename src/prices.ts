@@ -0,0 +1,38 @@
+// Price sources the app can value holdings with.
+//
+// Chainlink is offered on networks with `priceFeeds` in src/networks.ts, the
+// price file when VITE_PRICE_FILE_URL is set, and the mock feed in development.
+
+import { ethers } from 'ethers';
+import { ChainlinkPriceSource, MockPriceSource, PriceSource, StaticPriceSource } from './sdk';
+import { NetworkConfig } from './networks';
+
+export type PriceSourceId = 'chainlink' | 'file' | 'mock';
+
+export interface PriceSourceOption {
+  id: PriceSourceId;
+  label: string;
+}
+
+const env = import.meta.env;
+
+export const getPriceSourceOptions = (network: NetworkConfig): PriceSourceOption[] => [
+  ...(network.priceFeeds ? [{ id: 'chainlink' as const, label: 'Chainlink (on-chain)' }] : []),
+  ...(env.VITE_PRICE_FILE_URL ? [{ id: 'file' as const, label: 'Price file' }] : []),
+  ...(env.DEV ? [{ id: 'mock' as const, label: 'Mock feed (dev)' }] : [])
+];
+
+export const createPriceSource = (
+  id: PriceSourceId,
+  network: NetworkConfig,
+  runner: ethers.ContractRunner
+): PriceSource | null => {
+  switch (id) {
+    case 'chainlink':
+      return network.priceFeeds ? new ChainlinkPriceSource(runner, network.priceFeeds) : null;
+    case 'file':
+      return env.VITE_PRICE_FILE_URL ? new StaticPriceSource(env.VITE_PRICE_FILE_URL) : null;
+    case 'mock':
+      return new MockPriceSource();
+  }
+};
@@ -0,0 +1,406 @@
+import { ethers } from 'ethers';
+import { CONTRACT_ABI } from './abi';
+import { PortfolioKey, decryptScaledInteger, decryptInteger, encryptInteger } from './encryption';
+import { DecryptionError, toPortfolioError } from './errors';
+import {
+  AccessGrant,
+  Asset,
+  AssetChange,
+  AssetRecord,
+  EncryptedAmounts,
+  AMOUNT_DECIMALS,
+  EncryptedAsset,
+  EncryptedCheckpoint,
+  MAX_CHECKPOINTS,
+  PortfolioInfo,
+  PortfolioOperation,
+  ValuePoint
+} from './types';
+
+// Typed client for the ConfidentialPortfolio contract.
+//
+// Works with any ethers ContractRunner: a Provider for read-only access, or a
+// Signer (browser wallet, Wallet, Hardhat signer) to send transactions.
+// Every write is simulated before it is sent, and every failure is rethrown as
+// a PortfolioError.
+export class PortfolioClient {
+  readonly address: string;
+  readonly contract: ethers.Contract;
+
+  constructor(address: string, runner: ethers.ContractRunner) {
+    this.address = address;
+    this.contract = new ethers.Contract(address, CONTRACT_ABI, runner);
+  }
+
+  get runner(): ethers.ContractRunner | null {
+    return this.contract.runner;
+  }
+
+  get provider(): ethers.Provider | null {
+    return this.contract.runner?.provider ?? null;
+  }
+
+  // The connected signer; throws for read-only clients
+  getSigner(): ethers.Signer {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== 'function') {
+      throw new Error('PortfolioClient is not connected to a signer');
+    }
+    return runner;
+  }
+
+  // Address of the connected signer
+  async getAccount(): Promise<string> {
+    return this.getSigner().getAddress();
+  }
+
+  // Latest block number, to pin several reads to one chain state; throws without a provider
+  async getBlockNumber(): Promise<number> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('PortfolioClient is not connected to a provider');
+    }
+    return this.call(() => provider.getBlockNumber());
+  }
+
+  // ID of the chain the contract is read from; throws without a provider
+  async getChainId(): Promise<number> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('PortfolioClient is not connected to a provider');
+    }
+    const network = await this.call(() => provider.getNetwork());
+    return Number(network.chainId);
+  }
+
+  // Reads
+
+  async portfolioExists(portfolioId: number): Promise<boolean> {
+    return this.call(() => this.contract.portfolioExists(portfolioId));
+  }
+
+  async getPortfolio(portfolioId: number, blockTag?: ethers.BlockTag): Promise<PortfolioInfo> {
+    return toPortfolioInfo(await this.call(() => this.contract.getPortfolio(portfolioId, { blockTag })));
+  }
+
+  // Every portfolio of an owner, oldest first
+  async getPortfolios(owner: string): Promise<PortfolioInfo[]> {
+    const portfolios: ethers.Result[] = await this.call(() => this.contract.getPortfolios(owner));
+    return portfolios.map(toPortfolioInfo);
+  }
+
+  async getAssetSymbols(portfolioId: number): Promise<string[]> {
+    const symbols: string[] = await this.call(() => this.contract.getAssetSymbols(portfolioId));
+    return [...symbols];
+  }
+
+  async getAssetCount(portfolioId: number): Promise<number> {
+    const count: bigint = await this.call(() => this.contract.getAssetCount(portfolioId));
+    return Number(count);
+  }
+
+  async getAssetLastUpdate(portfolioId: number, symbol: string): Promise<Date> {
+    const timestamp: bigint = await this.call(() => this.contract.getAssetLastUpdate(portfolioId, symbol));
+    return new Date(Number(timestamp) * 1000);
+  }
+
+  // Symbol and last update of every asset in a portfolio
+  async getAssetRecords(portfolioId: number): Promise<AssetRecord[]> {
+    const assets = await this.getEncryptedAssets(portfolioId);
+    return assets.map(({ symbol, lastUpdate }) => ({ symbol, lastUpdate }));
+  }
+
+  async getEncryptedAsset(portfolioId: number, symbol: string): Promise<EncryptedAsset> {
+    const [encryptedAmount, encryptedValue, lastUpdate]: [string, string, Date] = await Promise.all([
+      this.call(() => this.contract.getEncryptedAssetAmount(portfolioId, symbol)),
+      this.call(() => this.contract.getEncryptedAssetValue(portfolioId, symbol)),
+      this.getAssetLastUpdate(portfolioId, symbol)
+    ]);
+    return { symbol, lastUpdate, encryptedAmount, encryptedValue };
+  }
+
+  // Every asset of a portfolio in one eth_call, however many it holds;
+  // pass a blockTag to read the portfolio as it was at that block
+  async getEncryptedAssets(portfolioId: number, blockTag?: ethers.BlockTag): Promise<EncryptedAsset[]> {
+    const assets: ethers.Result[] = await this.call(() => this.contract.getPortfolioAssets(portfolioId, { blockTag }));
+    return assets.map(asset => ({
+      symbol: asset.symbol,
+      lastUpdate: new Date(Number(asset.lastUpdate) * 1000),
+      encryptedAmount: asset.encryptedAmount,
+      encryptedValue: asset.encryptedValue
+    }));
+  }
+
+  // Decrypt one asset with the owner's key
+  async getAsset(portfolioId: number, symbol: string, key: PortfolioKey): Promise<Asset> {
+    return decryptAsset(await this.getEncryptedAsset(portfolioId, symbol), key);
+  }
+
+  // Decrypt every asset in a portfolio with the owner's key
+  async getAssets(portfolioId: number, key: PortfolioKey, blockTag?: ethers.BlockTag): Promise<Asset[]> {
+    const encrypted = await this.getEncryptedAssets(portfolioId, blockTag);
+    return Promise.all(encrypted.map(asset => decryptAsset(asset, key)));
+  }
+
+  // Total value as the contract reports it: getEncryptedTotalValue returns each
+  // asset's encrypted value in symbol order, to be decrypted and summed here.
+  // Values the caller has no access to come back empty and are left out.
+  async getTotalValue(portfolioId: number, key: PortfolioKey, blockTag?: ethers.BlockTag): Promise<bigint> {
+    const [symbols, encryptedValues]: [string[], string[]] = await Promise.all([
+      this.call(() => this.contract.getAssetSymbols(portfolioId, { blockTag })),
+      this.call(() => this.contract.getEncryptedTotalValue(portfolioId, { blockTag }))
+    ]);
+
+    let total = BigInt(0);
+    for (let i = 0; i < symbols.length; i++) {
+      if (ethers.dataLength(encryptedValues[i]) === 0) continue;
+      try {
+        total += await decryptInteger(key, symbols[i], 'value', encryptedValues[i]);
+      } catch (error) {
+        throw new DecryptionError(symbols[i], error);
+      }
+    }
+    return total;
+  }
+
+  async getCheckpointCount(portfolioId: number, symbol: string): Promise<number> {
+    const count: bigint = await this.call(() => this.contract.getCheckpointCount(portfolioId, symbol));
+    return Number(count);
+  }
+
+  // A page of an asset's value checkpoints, oldest first
+  async getEncryptedCheckpoints(
+    portfolioId: number,
+    symbol: string,
+    offset: number,
+    limit: number
+  ): Promise<EncryptedCheckpoint[]> {
+    const checkpoints: ethers.Result[] = await this.call(() => this.contract.getValueCheckpoints(portfolioId, symbol, offset, limit));
+    return checkpoints.map(checkpoint => ({
+      timestamp: new Date(Number(checkpoint.timestamp) * 1000),
+      encryptedValue: checkpoint.encryptedValue
+    }));
+  }
+
+  // Every value checkpoint the contract keeps for an asset, decrypted, oldest first
+  async getValueHistory(portfolioId: number, symbol: string, key: PortfolioKey, pageSize = MAX_CHECKPOINTS): Promise<ValuePoint[]> {
+    const count = await this.getCheckpointCount(portfolioId, symbol);
+    const checkpoints: EncryptedCheckpoint[] = [];
+    for (let offset = 0; offset < count; offset += pageSize) {
+      checkpoints.push(...await this.getEncryptedCheckpoints(portfolioId, symbol, offset, pageSize));
+    }
+
+    try {
+      return await Promise.all(checkpoints.map(async checkpoint => ({
+        timestamp: checkpoint.timestamp,
+        value: await decryptInteger(key, symbol, 'value', checkpoint.encryptedValue)
+      })));
+    } catch (error) {
+      throw new DecryptionError(symbol, error);
+    }
+  }
+
+  // Registered viewer public key of an address, or null when it has none
+  async getViewerKey(viewer: string): Promise<string | null> {
+    const key: string = await this.call(() => this.contract.viewerKeys(viewer));
+    return ethers.dataLength(key) > 0 ? key : null;
+  }
+
+  // Every grant on a portfolio, expired ones included
+  async getGrants(portfolioId: number): Promise<AccessGrant[]> {
+    const grants: ethers.Result[] = await this.call(() => this.contract.getGrants(portfolioId));
+    return grants.map(grant => ({
+      viewer: grant.viewer,
+      symbol: grant.symbol,
+      expiresAt: new Date(Number(grant.expiresAt) * 1000),
+      sealedKey: grant.sealedKey
+    }));
+  }
+
+  // Whether a viewer may currently read an asset, or the whole portfolio when symbol is empty
+  async hasAccess(portfolioId: number, viewer: string, symbol = ''): Promise<boolean> {
+    return this.call(() => this.contract.hasAccess(portfolioId, viewer, symbol));
+  }
+
+  // Writes
+
+  // The new portfolio's ID is in the PortfolioCreated event of the receipt
+  async createPortfolio(name: string, overrides: ethers.Overrides = {}): Promise<ethers.ContractTransactionResponse> {
+    return this.send('createPortfolio', [name], overrides);
+  }
+
+  async renamePortfolio(
+    portfolioId: number,
+    name: string,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('renamePortfolio', [portfolioId, name], overrides);
+  }
+
+  // Delete every asset and grant of a portfolio and the portfolio itself; its ID is not reused
+  async closePortfolio(portfolioId: number, overrides: ethers.Overrides = {}): Promise<ethers.ContractTransactionResponse> {
+    return this.send('closePortfolio', [portfolioId], overrides);
+  }
+
+  async addAsset(
+    portfolioId: number,
+    symbol: string,
+    amounts: EncryptedAmounts,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('addAsset', [portfolioId, symbol, amounts.encryptedAmount, amounts.encryptedValue], overrides);
+  }
+
+  async updateAsset(
+    portfolioId: number,
+    symbol: string,
+    amounts: EncryptedAmounts,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('updateAsset', [portfolioId, symbol, amounts.encryptedAmount, amounts.encryptedValue], overrides);
+  }
+
+  async removeAsset(
+    portfolioId: number,
+    symbol: string,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('removeAsset', [portfolioId, symbol], overrides);
+  }
+
+  // Apply several adds, updates and removals in one transaction; all or nothing
+  async applyAssetChanges(
+    portfolioId: number,
+    changes: AssetChange[],
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('applyAssetChanges', [portfolioId, changes.map(toChangeTuple)], overrides);
+  }
+
+  // Publish the caller's viewer public key so owners can share keys with it
+  async setViewerKey(publicKey: string, overrides: ethers.Overrides = {}): Promise<ethers.ContractTransactionResponse> {
+    return this.send('setViewerKey', [publicKey], overrides);
+  }
+
+  // Give a viewer read access to one asset, or the whole portfolio when symbol is empty, until expiresAt
+  async grantAccess(
+    portfolioId: number,
+    viewer: string,
+    symbol: string,
+    expiresAt: Date,
+    sealedKey: string,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('grantAccess', [portfolioId, viewer, symbol, toUnixTime(expiresAt), sealedKey], overrides);
+  }
+
+  async revokeAccess(
+    portfolioId: number,
+    viewer: string,
+    symbol: string,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('revokeAccess', [portfolioId, viewer, symbol], overrides);
+  }
+
+  // Gas estimate for a write operation, without sending it
+  async estimateGas(operation: PortfolioOperation): Promise<bigint> {
+    switch (operation.type) {
+      case 'createPortfolio':
+        return this.call(() => this.contract.createPortfolio.estimateGas(operation.name));
+      case 'renamePortfolio':
+        return this.call(() => this.contract.renamePortfolio.estimateGas(operation.portfolioId, operation.name));
+      case 'closePortfolio':
+        return this.call(() => this.contract.closePortfolio.estimateGas(operation.portfolioId));
+      case 'addAsset':
+        return this.call(() => this.contract.addAsset.estimateGas(
+          operation.portfolioId, operation.symbol, operation.amounts.encryptedAmount, operation.amounts.encryptedValue
+        ));
+      case 'updateAsset':
+        return this.call(() => this.contract.updateAsset.estimateGas(
+          operation.portfolioId, operation.symbol, operation.amounts.encryptedAmount, operation.amounts.encryptedValue
+        ));
+      case 'removeAsset':
+        return this.call(() => this.contract.removeAsset.estimateGas(operation.portfolioId, operation.symbol));
+      case 'applyAssetChanges':
+        return this.call(() => this.contract.applyAssetChanges.estimateGas(operation.portfolioId, operation.changes.map(toChangeTuple)));
+      case 'setViewerKey':
+        return this.call(() => this.contract.setViewerKey.estimateGas(operation.publicKey));
+      case 'grantAccess':
+        return this.call(() => this.contract.grantAccess.estimateGas(
+          operation.portfolioId, operation.viewer, operation.symbol, toUnixTime(operation.expiresAt), operation.sealedKey
+        ));
+      case 'revokeAccess':
+        return this.call(() => this.contract.revokeAccess.estimateGas(operation.portfolioId, operation.viewer, operation.symbol));
+    }
+  }
+
+  // Simulate the call with staticCall first, so a revert surfaces as a
+  // ContractRevertError before the wallet prompt opens and no gas is spent
+  private async send(
+    method: string,
+    args: unknown[],
+    overrides: ethers.Overrides
+  ): Promise<ethers.ContractTransactionResponse> {
+    const fn = this.contract.getFunction(method);
+    await this.call(() => fn.staticCall(...args, overrides));
+    return this.call(() => fn.send(...args, overrides));
+  }
+
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw toPortfolioError(error);
+    }
+  }
+}
+
+const toUnixTime = (date: Date) => Math.floor(date.getTime() / 1000);
+
+const toPortfolioInfo = (portfolio: ethers.Result): PortfolioInfo => ({
+  id: Number(portfolio.id),
+  owner: portfolio.owner,
+  name: portfolio.name,
+  assetCount: Number(portfolio.assetCount),
+  createdAt: new Date(Number(portfolio.createdAt) * 1000)
+});
+
+// ChangeType enum values of ConfidentialPortfolio.sol
+const CHANGE_TYPES = { add: 0, update: 1, remove: 2 } as const;
+
+// ABI encoding of an AssetChange struct; removals carry no ciphertexts
+const toChangeTuple = (change: AssetChange) => ({
+  changeType: CHANGE_TYPES[change.type],
+  symbol: change.symbol,
+  amount: change.type === 'remove' ? '0x' : change.amounts.encryptedAmount,
+  value: change.type === 'remove' ? '0x' : change.amounts.encryptedValue
+});
+
+// Encrypt an amount scaled by 10^decimals and a value in cents for submission under the given symbol
+export const encryptAmounts = async (
+  key: PortfolioKey,
+  symbol: string,
+  amount: bigint,
+  value: bigint,
+  decimals = AMOUNT_DECIMALS
+): Promise<EncryptedAmounts> => ({
+  encryptedAmount: await encryptInteger(key, symbol, 'amount', amount, decimals),
+  encryptedValue: await encryptInteger(key, symbol, 'value', value)
+});
+
+// Decrypt an on-chain asset record with the owner's key
+export const decryptAsset = async (asset: EncryptedAsset, key: PortfolioKey): Promise<Asset> => {
+  try {
+    const amount = await decryptScaledInteger(key, asset.symbol, 'amount', asset.encryptedAmount);
+    return {
+      symbol: asset.symbol,
+      lastUpdate: asset.lastUpdate,
+      amount: amount.value,
+      decimals: amount.decimals,
+      value: await decryptInteger(key, asset.symbol, 'value', asset.encryptedValue)
+    };
+  } catch (error) {
+    throw new DecryptionError(asset.symbol, error);
+  }
+};
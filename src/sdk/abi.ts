@@ -0,0 +1,38 @@
+// ConfidentialPortfolio contract ABI (human-readable)
+export const CONTRACT_ABI = [
+  "function createPortfolio(string calldata name) external returns (uint256 portfolioId)",
+  "function renamePortfolio(uint256 portfolioId, string calldata name) external",
+  "function closePortfolio(uint256 portfolioId) external",
+  "function addAsset(uint256 portfolioId, string memory symbol, bytes memory amount, bytes memory value) external",
+  "function updateAsset(uint256 portfolioId, string memory symbol, bytes memory newAmount, bytes memory newValue) external",
+  "function removeAsset(uint256 portfolioId, string memory symbol) external",
+  "function applyAssetChanges(uint256 portfolioId, tuple(uint8 changeType, string symbol, bytes amount, bytes value)[] calldata changes) external",
+  "function portfolioCount() external view returns (uint256)",
+  "function portfolioExists(uint256 portfolioId) external view returns (bool)",
+  "function getPortfolio(uint256 portfolioId) external view returns (tuple(uint256 id, address owner, string name, uint256 assetCount, uint256 createdAt))",
+  "function getPortfolios(address owner) external view returns (tuple(uint256 id, address owner, string name, uint256 assetCount, uint256 createdAt)[] memory)",
+  "function getAssetSymbols(uint256 portfolioId) external view returns (string[] memory)",
+  "function getPortfolioAssets(uint256 portfolioId) external view returns (tuple(string symbol, bytes encryptedAmount, bytes encryptedValue, uint256 lastUpdate)[] memory)",
+  "function getEncryptedAssetAmount(uint256 portfolioId, string memory symbol) external view returns (bytes memory)",
+  "function getEncryptedAssetValue(uint256 portfolioId, string memory symbol) external view returns (bytes memory)",
+  "function getEncryptedTotalValue(uint256 portfolioId) external view returns (bytes[] memory)",
+  "function getAssetLastUpdate(uint256 portfolioId, string memory symbol) external view returns (uint256)",
+  "function getAssetCount(uint256 portfolioId) external view returns (uint256)",
+  "function setViewerKey(bytes calldata publicKey) external",
+  "function viewerKeys(address viewer) external view returns (bytes memory)",
+  "function grantAccess(uint256 portfolioId, address viewer, string calldata symbol, uint256 expiresAt, bytes calldata sealedKey) external",
+  "function revokeAccess(uint256 portfolioId, address viewer, string calldata symbol) external",
+  "function getGrants(uint256 portfolioId) external view returns (tuple(address viewer, string symbol, uint256 expiresAt, bytes sealedKey)[] memory)",
+  "function hasAccess(uint256 portfolioId, address viewer, string memory symbol) external view returns (bool)",
+  "function getCheckpointCount(uint256 portfolioId, string memory symbol) external view returns (uint256)",
+  "function getValueCheckpoints(uint256 portfolioId, string memory symbol, uint256 offset, uint256 limit) external view returns (tuple(bytes encryptedValue, uint256 timestamp)[] memory)",
+  "event PortfolioCreated(address indexed user, uint256 indexed portfolioId, string name, uint256 timestamp)",
+  "event PortfolioRenamed(address indexed user, uint256 indexed portfolioId, string name, uint256 timestamp)",
+  "event PortfolioClosed(address indexed user, uint256 indexed portfolioId, uint256 timestamp)",
+  "event AssetAdded(address indexed user, uint256 indexed portfolioId, string symbol, uint256 timestamp)",
+  "event AssetUpdated(address indexed user, uint256 indexed portfolioId, string symbol, uint256 timestamp)",
+  "event AssetRemoved(address indexed user, uint256 indexed portfolioId, string symbol, uint256 timestamp)",
+  "event AccessGranted(address indexed owner, address indexed viewer, uint256 indexed portfolioId, string symbol, uint256 expiresAt)",
+  "event AccessRevoked(address indexed owner, address indexed viewer, uint256 indexed portfolioId, string symbol)",
+  "event ViewerKeyRegistered(address indexed viewer)"
+] as const;
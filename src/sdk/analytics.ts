@@ -0,0 +1,96 @@
+import { Asset, AssetRecord, ValuePoint } from './types';
+
+// Allocation and concentration metrics over decrypted holdings. Everything here
+// runs on values already decrypted in the browser; nothing is sent anywhere.
+
+// Share of the portfolio held in one asset; `share` is a fraction in [0, 1]
+export interface AllocationSlice {
+  symbol: string;
+  value: bigint;
+  share: number;
+}
+
+export interface ConcentrationMetrics {
+  largestShare: number;      // share of the single largest holding
+  top3Share: number;         // combined share of the three largest holdings
+  herfindahlIndex: number;   // sum of squared shares: 1 / n when even, 1 with a single holding
+  effectiveHoldings: number; // 1 / HHI, the number of equal holdings with the same concentration
+}
+
+export interface PortfolioAnalytics {
+  totalValue: bigint;
+  allocation: AllocationSlice[]; // largest first
+  concentration: ConcentrationMetrics;
+}
+
+export interface StaleAsset extends AssetRecord {
+  ageMs: number;
+}
+
+// Decrypted checkpoints of one asset; truncated when the contract has overwritten older ones
+export interface AssetValueHistory {
+  symbol: string;
+  points: ValuePoint[];
+  truncated: boolean;
+}
+
+// Shares are computed in basis points so bigint values of any size stay exact until the last step
+const BASIS_POINTS = 10000;
+
+const shareOf = (value: bigint, total: bigint) =>
+  total > BigInt(0) ? Number(value * BigInt(BASIS_POINTS) / total) / BASIS_POINTS : 0;
+
+export const analyzePortfolio = (assets: Asset[]): PortfolioAnalytics => {
+  const totalValue = assets.reduce((sum, asset) => sum + asset.value, BigInt(0));
+
+  const allocation = assets
+    .map(asset => ({ symbol: asset.symbol, value: asset.value, share: shareOf(asset.value, totalValue) }))
+    .sort((a, b) => (a.value === b.value ? a.symbol.localeCompare(b.symbol) : a.value > b.value ? -1 : 1));
+
+  const herfindahlIndex = allocation.reduce((sum, slice) => sum + slice.share * slice.share, 0);
+  const concentration: ConcentrationMetrics = {
+    largestShare: allocation[0]?.share ?? 0,
+    top3Share: shareOf(allocation.slice(0, 3).reduce((sum, slice) => sum + slice.value, BigInt(0)), totalValue),
+    herfindahlIndex,
+    effectiveHoldings: herfindahlIndex > 0 ? 1 / herfindahlIndex : 0
+  };
+
+  return { totalValue, allocation, concentration };
+};
+
+// Assets whose last update is older than `maxAgeMs`, oldest first. Update
+// times are public, so this works without decrypting anything.
+export const findStaleAssets = (records: AssetRecord[], maxAgeMs: number, now = new Date()): StaleAsset[] =>
+  records
+    .map(record => ({ ...record, ageMs: now.getTime() - record.lastUpdate.getTime() }))
+    .filter(record => record.ageMs > maxAgeMs)
+    .sort((a, b) => b.ageMs - a.ageMs);
+
+// Portfolio value after every checkpoint, each asset counted at its latest value
+// at that time. The series starts once every truncated history has data, since
+// earlier totals would leave those assets out.
+export const portfolioValueHistory = (histories: AssetValueHistory[]): ValuePoint[] => {
+  const since = Math.max(0, ...histories
+    .filter(history => history.truncated && history.points.length > 0)
+    .map(history => history.points[0].timestamp.getTime()));
+
+  const checkpoints = histories
+    .flatMap(history => history.points.map(point => ({ symbol: history.symbol, ...point })))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const latest = new Map<string, bigint>();
+  const series: ValuePoint[] = [];
+  for (const checkpoint of checkpoints) {
+    latest.set(checkpoint.symbol, checkpoint.value);
+    if (checkpoint.timestamp.getTime() < since) continue;
+
+    const value = Array.from(latest.values()).reduce((sum, v) => sum + v, BigInt(0));
+    // Checkpoints with the same timestamp (one block or one batch) collapse into one point
+    if (series.length > 0 && series[series.length - 1].timestamp.getTime() === checkpoint.timestamp.getTime()) {
+      series[series.length - 1] = { timestamp: checkpoint.timestamp, value };
+    } else {
+      series.push({ timestamp: checkpoint.timestamp, value });
+    }
+  }
+  return series;
+};
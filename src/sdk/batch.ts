@@ -0,0 +1,25 @@
+import { AssetChangeType, MAX_SYMBOL_LENGTH } from './types';
+
+// Replays the contract's checks for a batch against the current symbols, so
+// invalid rows can be flagged before anything is encrypted or signed.
+// Returns one entry per change: the revert string it would hit, or null.
+export const validateAssetChanges = (
+  changes: { type: AssetChangeType; symbol: string }[],
+  existingSymbols: string[]
+): (string | null)[] => {
+  const held = new Set(existingSymbols);
+
+  return changes.map(({ type, symbol }) => {
+    if (symbol.length === 0) return 'Asset symbol cannot be empty';
+    if (new TextEncoder().encode(symbol).length > MAX_SYMBOL_LENGTH) return 'Asset symbol too long';
+
+    if (type === 'add') {
+      if (held.has(symbol)) return 'Asset already exists';
+      held.add(symbol);
+    } else {
+      if (!held.has(symbol)) return 'Asset does not exist';
+      if (type === 'remove') held.delete(symbol);
+    }
+    return null;
+  });
+};
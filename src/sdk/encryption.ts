@@ -0,0 +1,230 @@
+import { ethers } from 'ethers';
+import { AMOUNT_DECIMALS, VALUE_DECIMALS } from './types';
+
+// Client-side encryption for portfolio amounts and values.
+//
+// The wallet signs a fixed message once per session; the signature is the
+// input keying material for HKDF, from which one master key per portfolio and
+// from that one AES-GCM key per asset symbol are derived. Ciphertexts are opaque to the contract and can only be opened
+// by a browser that can reproduce the same signature, or by a viewer the owner
+// shared keys with (see sharing.ts).
+
+// Layout of a ciphertext: version (1 byte) | IV (12 bytes) | AES-GCM output.
+// Version 3 plaintexts are the number's decimals followed by a uint128, wide
+// enough for ordinary balances of 18-decimal tokens; carrying the decimals means
+// an amount decodes with the scale it was written with whatever the reader's
+// asset catalog says. Older versions still decrypt: version 2 is decimals | uint64,
+// version 1 a bare uint64 at the default scale.
+const CIPHERTEXT_VERSION = 3;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const INTEGER_LENGTH = 16; // uint128, big-endian
+const UINT64_LENGTH = 8;
+
+// Plaintext layout of each readable version
+const PLAINTEXT_FORMATS: Record<number, { length: number; scaled: boolean }> = {
+  1: { length: UINT64_LENGTH, scaled: false },
+  2: { length: 1 + UINT64_LENGTH, scaled: true },
+  3: { length: 1 + INTEGER_LENGTH, scaled: true }
+};
+
+const ciphertextLength = (plaintextLength: number) => 1 + IV_LENGTH + plaintextLength + AUTH_TAG_LENGTH;
+
+export const CIPHERTEXT_LENGTH = ciphertextLength(PLAINTEXT_FORMATS[CIPHERTEXT_VERSION].length);
+export const MAX_UINT128 = (1n << 128n) - 1n;
+export const MAX_DECIMALS = 18;
+
+// WebCrypto wants an ArrayBuffer-backed view; ethers returns ArrayBufferLike
+const toBuffer = (data: ethers.BytesLike) => new Uint8Array(ethers.getBytes(data));
+const utf8 = (text: string) => toBuffer(ethers.toUtf8Bytes(text));
+
+const HKDF_SALT = utf8('confidential-portfolio/v1');
+
+export type EncryptedField = 'amount' | 'value';
+
+// A decrypted fixed-point number: `value` scaled by 10^decimals
+export interface ScaledInteger {
+  value: bigint;
+  decimals: number;
+}
+
+const DEFAULT_DECIMALS: Record<EncryptedField, number> = { amount: AMOUNT_DECIMALS, value: VALUE_DECIMALS };
+
+// Root key of an account, from its wallet signature; only used to derive portfolio keys
+export interface AccountKey {
+  account: string;
+  rootKey: CryptoKey;
+}
+
+// Opens the assets of one portfolio: every asset with the master key, or only
+// the symbols in `assetKeys` when it was built from per-symbol grants
+export interface PortfolioKey {
+  account: string; // portfolio owner
+  portfolioId: number;
+  masterKey?: CryptoKey;
+  assetKeys?: Record<string, CryptoKey>;
+}
+
+// Message the wallet signs to derive the encryption key for an account
+export const getKeyDerivationMessage = (account: string) =>
+  [
+    'Confidential Portfolio - unlock encryption key',
+    '',
+    `Account: ${ethers.getAddress(account)}`,
+    '',
+    'Signing this message does not send a transaction or cost any gas.',
+    'Only sign it on the Confidential Portfolio app.'
+  ].join('\n');
+
+// Root key of an account from a wallet signature; one signature unlocks all its portfolios
+export const deriveAccountKey = async (signer: ethers.Signer): Promise<AccountKey> => {
+  const account = await signer.getAddress();
+  const signature = await signer.signMessage(getKeyDerivationMessage(account));
+  const rootKey = await crypto.subtle.importKey('raw', toBuffer(ethers.keccak256(signature)), 'HKDF', false, ['deriveBits']);
+  return { account: ethers.getAddress(account), rootKey };
+};
+
+// Raw master key material of one portfolio. Each portfolio gets its own, so a
+// whole-portfolio grant never opens the account's other portfolios. Only leaves
+// this module to be shared through such a grant.
+export const exportPortfolioKeyMaterial = async (accountKey: AccountKey, portfolioId: number): Promise<Uint8Array> => {
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: HKDF_SALT,
+      info: utf8(`portfolio:${portfolioId}`)
+    },
+    accountKey.rootKey,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+// Master key of a portfolio from its raw key material
+export const importMasterKey = async (account: string, portfolioId: number, keyMaterial: Uint8Array): Promise<PortfolioKey> => {
+  const masterKey = await crypto.subtle.importKey('raw', toBuffer(keyMaterial), 'HKDF', false, ['deriveBits']);
+  return { account: ethers.getAddress(account), portfolioId, masterKey };
+};
+
+// Master key of one of the account's portfolios
+export const getPortfolioKey = async (accountKey: AccountKey, portfolioId: number): Promise<PortfolioKey> =>
+  importMasterKey(accountKey.account, portfolioId, await exportPortfolioKeyMaterial(accountKey, portfolioId));
+
+// Derive a portfolio's master key from a wallet signature
+export const deriveEncryptionKey = async (signer: ethers.Signer, portfolioId: number): Promise<PortfolioKey> =>
+  getPortfolioKey(await deriveAccountKey(signer), portfolioId);
+
+// Raw 256-bit AES key of one asset; only leaves this module to be shared through a per-symbol grant
+export const exportAssetKey = async (key: PortfolioKey, symbol: string): Promise<Uint8Array> => {
+  if (!key.masterKey) {
+    throw new Error(`Only the portfolio owner can export the key for ${symbol}`);
+  }
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: HKDF_SALT,
+      info: utf8(`asset:${symbol}`)
+    },
+    key.masterKey,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+const importAssetKey = (raw: Uint8Array) =>
+  crypto.subtle.importKey('raw', toBuffer(raw), 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+// Key that opens only the given assets, from raw asset keys received through grants
+export const importAssetKeys = async (
+  account: string,
+  portfolioId: number,
+  rawKeys: Record<string, Uint8Array>
+): Promise<PortfolioKey> => {
+  const assetKeys: Record<string, CryptoKey> = {};
+  for (const [symbol, raw] of Object.entries(rawKeys)) {
+    assetKeys[symbol] = await importAssetKey(raw);
+  }
+  return { account: ethers.getAddress(account), portfolioId, assetKeys };
+};
+
+// Per-asset AES-GCM key, so a ciphertext can only be opened under its own symbol
+const deriveAssetKey = async (key: PortfolioKey, symbol: string): Promise<CryptoKey> => {
+  const shared = key.assetKeys?.[symbol];
+  if (shared) return shared;
+  if (!key.masterKey) {
+    throw new Error(`No key for ${symbol}`);
+  }
+  return importAssetKey(await exportAssetKey(key, symbol));
+};
+
+// Encrypt an amount or value, scaled by 10^decimals, into an opaque ciphertext (hex)
+export const encryptInteger = async (
+  key: PortfolioKey,
+  symbol: string,
+  field: EncryptedField,
+  plaintext: bigint,
+  decimals = DEFAULT_DECIMALS[field]
+): Promise<string> => {
+  if (plaintext < 0n || plaintext > MAX_UINT128) {
+    throw new RangeError(`${field} is out of the uint128 range`);
+  }
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new RangeError(`${field} decimals must be an integer from 0 to ${MAX_DECIMALS}`);
+  }
+
+  const data = toBuffer(ethers.concat([new Uint8Array([decimals]), ethers.toBeHex(plaintext, INTEGER_LENGTH)]));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const assetKey = await deriveAssetKey(key, symbol);
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: utf8(field) },
+    assetKey,
+    data
+  );
+
+  return ethers.concat([new Uint8Array([CIPHERTEXT_VERSION]), iv, new Uint8Array(sealed)]);
+};
+
+// Decrypt a ciphertext produced by encryptInteger back into the scaled integer and its decimals
+export const decryptScaledInteger = async (
+  key: PortfolioKey,
+  symbol: string,
+  field: EncryptedField,
+  ciphertext: ethers.BytesLike
+): Promise<ScaledInteger> => {
+  const bytes = ethers.getBytes(ciphertext);
+  const format = PLAINTEXT_FORMATS[bytes[0]];
+  if (!format || bytes.length !== ciphertextLength(format.length)) {
+    throw new Error(`Unsupported ciphertext format for ${symbol} ${field}`);
+  }
+
+  const iv = bytes.slice(1, 1 + IV_LENGTH);
+  const sealed = bytes.slice(1 + IV_LENGTH);
+  const assetKey = await deriveAssetKey(key, symbol);
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, additionalData: utf8(field) },
+    assetKey,
+    sealed
+  );
+
+  const plaintext = new Uint8Array(data);
+  return format.scaled
+    ? { value: ethers.toBigInt(plaintext.slice(1)), decimals: plaintext[0] }
+    : { value: ethers.toBigInt(plaintext), decimals: DEFAULT_DECIMALS[field] };
+};
+
+// Decrypt just the scaled integer, for fields whose scale is fixed (values are always in cents)
+export const decryptInteger = async (
+  key: PortfolioKey,
+  symbol: string,
+  field: EncryptedField,
+  ciphertext: ethers.BytesLike
+): Promise<bigint> => (await decryptScaledInteger(key, symbol, field, ciphertext)).value;
+
+// Random bytes with the shape of a real ciphertext, for gas estimation only
+export const placeholderCiphertext = () => {
+  const bytes = ethers.randomBytes(CIPHERTEXT_LENGTH);
+  bytes[0] = CIPHERTEXT_VERSION;
+  return ethers.hexlify(bytes);
+};
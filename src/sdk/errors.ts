@@ -0,0 +1,260 @@
+import { ethers } from 'ethers';
+import { MAX_BATCH_SIZE, MAX_PORTFOLIOS, MAX_PORTFOLIO_NAME_LENGTH, MAX_SYMBOL_LENGTH } from './types';
+
+export type PortfolioErrorCode =
+  | 'USER_REJECTED'
+  | 'REQUEST_PENDING'
+  | 'WALLET_UNAVAILABLE'
+  | 'NETWORK_ERROR'
+  | 'NONCE_CONFLICT'
+  | 'INSUFFICIENT_FUNDS'
+  | 'PORTFOLIO_LIMIT'
+  | 'PORTFOLIO_NOT_FOUND'
+  | 'NOT_PORTFOLIO_OWNER'
+  | 'INVALID_NAME'
+  | 'ASSET_EXISTS'
+  | 'ASSET_NOT_FOUND'
+  | 'INVALID_SYMBOL'
+  | 'INVALID_CIPHERTEXT'
+  | 'INVALID_AMOUNT'
+  | 'STALE_PRICE'
+  | 'INVALID_BATCH'
+  | 'INVALID_GRANT'
+  | 'GRANT_NOT_FOUND'
+  | 'ACCESS_DENIED'
+  | 'REVERTED'
+  | 'DECRYPTION_FAILED'
+  | 'UNKNOWN';
+
+export class PortfolioError extends Error {
+  readonly code: PortfolioErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: PortfolioErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'PortfolioError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+// The wallet user declined a signature or transaction prompt
+export class UserRejectedError extends PortfolioError {
+  constructor(cause?: unknown) {
+    super('USER_REJECTED', 'Request rejected by user', cause);
+    this.name = 'UserRejectedError';
+  }
+}
+
+// The account cannot pay for gas
+export class InsufficientFundsError extends PortfolioError {
+  constructor(cause?: unknown) {
+    super('INSUFFICIENT_FUNDS', 'Insufficient funds for gas', cause);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+// The contract reverted; `reason` is the revert string when there is one
+export class ContractRevertError extends PortfolioError {
+  readonly reason: string;
+
+  constructor(code: PortfolioErrorCode, reason: string, cause?: unknown) {
+    super(code, reason, cause);
+    this.name = 'ContractRevertError';
+    this.reason = reason;
+  }
+}
+
+// A ciphertext could not be opened with the given key
+export class DecryptionError extends PortfolioError {
+  constructor(symbol: string, cause?: unknown) {
+    super('DECRYPTION_FAILED', `Failed to decrypt ${symbol}`, cause);
+    this.name = 'DecryptionError';
+  }
+}
+
+// An amount or value typed by the user can't be stored exactly; the message says why
+export class InvalidAmountError extends PortfolioError {
+  constructor(message: string) {
+    super('INVALID_AMOUNT', message);
+    this.name = 'InvalidAmountError';
+  }
+}
+
+// A price quote is older than its source allows, e.g. a frozen Chainlink feed
+export class StalePriceError extends PortfolioError {
+  readonly symbol: string;
+  readonly updatedAt: Date;
+
+  constructor(symbol: string, updatedAt: Date) {
+    const hours = Math.floor((Date.now() - updatedAt.getTime()) / 3600000);
+    super('STALE_PRICE', `The ${symbol} price was last updated ${hours} hour${hours === 1 ? '' : 's'} ago`);
+    this.name = 'StalePriceError';
+    this.symbol = symbol;
+    this.updatedAt = updatedAt;
+  }
+}
+
+// Revert strings of ConfidentialPortfolio.sol and the codes they map to
+const REVERT_CODES: Record<string, PortfolioErrorCode> = {
+  'Too many portfolios': 'PORTFOLIO_LIMIT',
+  'Portfolio does not exist': 'PORTFOLIO_NOT_FOUND',
+  'Not portfolio owner': 'NOT_PORTFOLIO_OWNER',
+  'Portfolio name cannot be empty': 'INVALID_NAME',
+  'Portfolio name too long': 'INVALID_NAME',
+  'Asset already exists': 'ASSET_EXISTS',
+  'Asset does not exist': 'ASSET_NOT_FOUND',
+  'Asset symbol cannot be empty': 'INVALID_SYMBOL',
+  'Asset symbol too long': 'INVALID_SYMBOL',
+  'Encrypted amount cannot be empty': 'INVALID_CIPHERTEXT',
+  'Encrypted value cannot be empty': 'INVALID_CIPHERTEXT',
+  'Encrypted amount too long': 'INVALID_CIPHERTEXT',
+  'Encrypted value too long': 'INVALID_CIPHERTEXT',
+  'Batch cannot be empty': 'INVALID_BATCH',
+  'Batch too large': 'INVALID_BATCH',
+  'Invalid viewer': 'INVALID_GRANT',
+  'Expiry must be in the future': 'INVALID_GRANT',
+  'Invalid sealed key': 'INVALID_GRANT',
+  'Invalid public key': 'INVALID_GRANT',
+  'Too many grants': 'INVALID_GRANT',
+  'Grant does not exist': 'GRANT_NOT_FOUND',
+  'Access denied': 'ACCESS_DENIED'
+};
+
+// Selector of Solidity's Error(string)
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// Fields ethers and wallets put on what they throw; `error` and `info.error` hold the wrapped RPC error
+interface ProviderErrorLike {
+  code?: unknown;
+  message?: unknown;
+  shortMessage?: unknown;
+  data?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+}
+
+const isErrorLike = (error: unknown): error is ProviderErrorLike =>
+  typeof error === 'object' && error !== null;
+
+// Most specific message on an error, if it has one
+const messageOf = (error: unknown): string | undefined => {
+  if (!isErrorLike(error)) return undefined;
+  if (typeof error.shortMessage === 'string') return error.shortMessage;
+  return typeof error.message === 'string' ? error.message : undefined;
+};
+
+// Wallets nest RPC errors differently; look for Error(string) revert data anywhere in the chain
+const findRevertReason = (error: unknown, depth = 0): string | undefined => {
+  if (!isErrorLike(error) || depth > 4) {
+    return undefined;
+  }
+
+  const data = typeof error.data === 'string' ? error.data : isErrorLike(error.data) ? error.data.data : undefined;
+  if (typeof data === 'string' && data.startsWith(ERROR_STRING_SELECTOR)) {
+    try {
+      const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(data, 4));
+      return reason;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return findRevertReason(error.error, depth + 1) ?? findRevertReason(error.info?.error, depth + 1);
+};
+
+// EIP-1193 / JSON-RPC error code, either on the error itself or on the one ethers wrapped
+const rpcCode = (error: unknown): number | undefined => {
+  if (!isErrorLike(error)) return undefined;
+  return [error, error.info?.error, error.error]
+    .map(candidate => (isErrorLike(candidate) ? candidate.code : undefined))
+    .find((code): code is number => typeof code === 'number');
+};
+
+const isUserRejection = (error: unknown) =>
+  ethers.isError(error, 'ACTION_REJECTED') || rpcCode(error) === 4001;
+
+// EIP-1193 provider errors other than a rejection: unauthorized, unsupported
+// method, disconnected, chain disconnected, unrecognized chain
+const WALLET_UNAVAILABLE_CODES = [4100, 4200, 4900, 4901, 4902];
+
+// Convert anything thrown by ethers or the wallet into a PortfolioError
+export const toPortfolioError = (error: unknown): PortfolioError => {
+  if (error instanceof PortfolioError) {
+    return error;
+  }
+
+  if (isUserRejection(error)) {
+    return new UserRejectedError(error);
+  }
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return new InsufficientFundsError(error);
+  }
+  const code = rpcCode(error);
+  if (code === -32002) {
+    return new PortfolioError('REQUEST_PENDING', 'The wallet is already processing a request', error);
+  }
+  if (code !== undefined && WALLET_UNAVAILABLE_CODES.includes(code)) {
+    return new PortfolioError('WALLET_UNAVAILABLE', messageOf(error) ?? 'Wallet unavailable', error);
+  }
+  if (ethers.isError(error, 'NONCE_EXPIRED') || ethers.isError(error, 'REPLACEMENT_UNDERPRICED')) {
+    return new PortfolioError('NONCE_CONFLICT', error.shortMessage, error);
+  }
+  if (ethers.isError(error, 'NETWORK_ERROR') || ethers.isError(error, 'TIMEOUT') || ethers.isError(error, 'SERVER_ERROR')) {
+    return new PortfolioError('NETWORK_ERROR', error.shortMessage, error);
+  }
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    const reason = error.reason ?? findRevertReason(error) ?? 'Transaction reverted';
+    return new ContractRevertError(REVERT_CODES[reason] ?? 'REVERTED', reason, error);
+  }
+
+  const nestedReason = findRevertReason(error);
+  if (nestedReason) {
+    return new ContractRevertError(REVERT_CODES[nestedReason] ?? 'REVERTED', nestedReason, error);
+  }
+
+  return new PortfolioError('UNKNOWN', messageOf(error) ?? 'Unknown error', error);
+};
+
+// What to tell the user for each kind of failure
+const ERROR_MESSAGES: Record<PortfolioErrorCode, string> = {
+  USER_REJECTED: 'Request rejected in the wallet',
+  REQUEST_PENDING: 'Your wallet is already processing a request. Open it to continue.',
+  WALLET_UNAVAILABLE: 'The wallet could not handle this request. Check that it is unlocked and on the right network.',
+  NETWORK_ERROR: 'Could not reach the network. Check your connection and try again.',
+  NONCE_CONFLICT: 'Another transaction from this account is using the same nonce. Wait for it or speed it up.',
+  INSUFFICIENT_FUNDS: 'Insufficient funds for gas',
+  PORTFOLIO_LIMIT: `An account can have at most ${MAX_PORTFOLIOS} portfolios`,
+  PORTFOLIO_NOT_FOUND: 'This portfolio does not exist. Create one first.',
+  NOT_PORTFOLIO_OWNER: 'Only the owner can change this portfolio',
+  INVALID_NAME: `Portfolio names must be 1 to ${MAX_PORTFOLIO_NAME_LENGTH} characters`,
+  ASSET_EXISTS: 'This asset is already in your portfolio. Edit it instead.',
+  ASSET_NOT_FOUND: 'This asset is not in your portfolio',
+  INVALID_SYMBOL: `Asset symbols must be 1 to ${MAX_SYMBOL_LENGTH} characters`,
+  INVALID_CIPHERTEXT: 'The encrypted amount or value was rejected by the contract',
+  INVALID_AMOUNT: 'Amounts and values must be positive numbers that fit in 128 bits',
+  STALE_PRICE: 'The price feed has not been updated recently',
+  INVALID_BATCH: `A batch must contain between 1 and ${MAX_BATCH_SIZE} changes`,
+  INVALID_GRANT: 'The grant was rejected by the contract',
+  GRANT_NOT_FOUND: 'This viewer has no such grant',
+  ACCESS_DENIED: 'You have no access to this portfolio data',
+  REVERTED: 'The contract rejected the transaction',
+  DECRYPTION_FAILED: 'Could not decrypt with this key',
+  UNKNOWN: 'Something went wrong. Please try again.'
+};
+
+// User-facing message for anything thrown by the SDK, ethers or the wallet;
+// `fallback` replaces the generic text for errors that could not be classified
+export const describeError = (error: unknown, fallback?: string): string => {
+  const portfolioError = toPortfolioError(error);
+  if (portfolioError.code === 'UNKNOWN') {
+    return fallback ?? ERROR_MESSAGES.UNKNOWN;
+  }
+  if (portfolioError instanceof ContractRevertError && portfolioError.code === 'REVERTED') {
+    return `${ERROR_MESSAGES.REVERTED}: ${portfolioError.reason}`;
+  }
+  if (portfolioError instanceof InvalidAmountError || portfolioError instanceof StalePriceError) {
+    return portfolioError.message;
+  }
+  return ERROR_MESSAGES[portfolioError.code];
+};
@@ -0,0 +1,168 @@
+import { ethers } from 'ethers';
+import { PortfolioClient } from './PortfolioClient';
+import { toPortfolioError } from './errors';
+
+export type ActivityType = 'create' | 'rename' | 'close' | 'add' | 'update' | 'remove';
+
+// One entry of a portfolio's on-chain history
+export interface ActivityEvent {
+  type: ActivityType;
+  user: string;
+  portfolioId: number;
+  symbol?: string; // undefined for portfolio-level events
+  name?: string;   // portfolio name, only on create and rename
+  timestamp: Date;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface FetchActivityOptions {
+  fromBlock?: number;  // lowest block to scan, e.g. the contract's deployment block
+  toBlock?: number;    // defaults to the latest block
+  chunkSize?: number;  // blocks per eth_getLogs request
+  stopAtCreation?: boolean; // stop paging back once PortfolioCreated is found
+  onProgress?: (events: ActivityEvent[], scannedDownTo: number) => void;
+}
+
+const EVENT_TYPES: Record<string, ActivityType> = {
+  PortfolioCreated: 'create',
+  PortfolioRenamed: 'rename',
+  PortfolioClosed: 'close',
+  AssetAdded: 'add',
+  AssetUpdated: 'update',
+  AssetRemoved: 'remove'
+};
+
+const DEFAULT_CHUNK_SIZE = 5000;
+const MIN_CHUNK_SIZE = 64;
+
+// Newest first; ties inside a block are broken by log index
+const byNewest = (a: ActivityEvent, b: ActivityEvent) =>
+  b.blockNumber - a.blockNumber || b.logIndex - a.logIndex;
+
+// Rebuilds a portfolio's activity from the contract's events.
+//
+// Logs are read newest-first in block ranges of `chunkSize`; when an RPC node
+// rejects a range as too large, the range is halved and retried.
+export class ActivityIndexer {
+  private readonly client: PortfolioClient;
+  private readonly provider: ethers.Provider;
+
+  constructor(client: PortfolioClient) {
+    const provider = client.provider;
+    if (!provider) {
+      throw new Error('ActivityIndexer needs a client connected to a provider');
+    }
+    this.client = client;
+    this.provider = provider;
+  }
+
+  // Topic filter matching the events of one portfolio; the ID is the second indexed argument of each
+  private topics(portfolioId: number): (string | string[] | null)[] {
+    const iface = this.client.contract.interface;
+    const eventTopics = Object.keys(EVENT_TYPES).map(name => iface.getEvent(name)!.topicHash);
+    return [eventTopics, null, ethers.zeroPadValue(ethers.toBeHex(portfolioId), 32)];
+  }
+
+  private parse(log: ethers.Log): ActivityEvent | null {
+    const parsed = this.client.contract.interface.parseLog(log);
+    const type = parsed && EVENT_TYPES[parsed.name];
+    if (!parsed || !type) return null;
+
+    const named = type === 'create' || type === 'rename';
+    return {
+      type,
+      user: parsed.args.user,
+      portfolioId: Number(parsed.args.portfolioId),
+      symbol: named || type === 'close' ? undefined : parsed.args.symbol,
+      name: named ? parsed.args.name : undefined,
+      timestamp: new Date(Number(parsed.args.timestamp) * 1000),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index
+    };
+  }
+
+  // Events of a portfolio in [fromBlock, toBlock], newest first
+  async getEvents(portfolioId: number, fromBlock: number, toBlock: number): Promise<ActivityEvent[]> {
+    try {
+      const logs = await this.provider.getLogs({
+        address: this.client.address,
+        topics: this.topics(portfolioId),
+        fromBlock,
+        toBlock
+      });
+      return logs
+        .map(log => this.parse(log))
+        .filter((event): event is ActivityEvent => event !== null)
+        .sort(byNewest);
+    } catch (error) {
+      throw toPortfolioError(error);
+    }
+  }
+
+  // Page back through history until fromBlock (or the portfolio's creation)
+  async fetch(portfolioId: number, options: FetchActivityOptions = {}): Promise<ActivityEvent[]> {
+    const fromBlock = options.fromBlock ?? 0;
+    const toBlock = options.toBlock ?? await this.provider.getBlockNumber();
+    const stopAtCreation = options.stopAtCreation ?? true;
+    let chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+
+    const events: ActivityEvent[] = [];
+    let end = toBlock;
+
+    while (end >= fromBlock) {
+      const start = Math.max(fromBlock, end - chunkSize + 1);
+
+      let chunk: ActivityEvent[];
+      try {
+        chunk = await this.getEvents(portfolioId, start, end);
+      } catch (error) {
+        if (chunkSize <= MIN_CHUNK_SIZE) throw error;
+        chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+        continue;
+      }
+
+      events.push(...chunk);
+      options.onProgress?.([...events], start);
+
+      if (stopAtCreation && chunk.some(event => event.type === 'create')) break;
+      end = start - 1;
+    }
+
+    return events;
+  }
+
+  // Poll for new events on every block; returns an unsubscribe function
+  follow(portfolioId: number, fromBlock: number, onEvents: (events: ActivityEvent[]) => void): () => void {
+    let nextBlock = fromBlock;
+    let busy = false;
+
+    const handleBlock = async (blockNumber: number) => {
+      if (busy || blockNumber < nextBlock) return;
+      busy = true;
+      try {
+        const events = await this.getEvents(portfolioId, nextBlock, blockNumber);
+        nextBlock = blockNumber + 1;
+        if (events.length > 0) onEvents(events);
+      } catch (error) {
+        console.error('Failed to fetch new portfolio events:', error);
+      } finally {
+        busy = false;
+      }
+    };
+
+    this.provider.on('block', handleBlock);
+    return () => {
+      this.provider.off('block', handleBlock);
+    };
+  }
+}
+
+// Merge new events into a newest-first list, dropping duplicates
+export const mergeActivity = (current: ActivityEvent[], incoming: ActivityEvent[]): ActivityEvent[] => {
+  const seen = new Set(current.map(event => `${event.transactionHash}:${event.logIndex}`));
+  const fresh = incoming.filter(event => !seen.has(`${event.transactionHash}:${event.logIndex}`));
+  return fresh.length === 0 ? current : [...current, ...fresh].sort(byNewest);
+};
@@ -0,0 +1,63 @@
+import { MAX_UINT128 } from './encryption';
+import { InvalidAmountError } from './errors';
+
+// Exact conversion between decimal strings and the scaled uint128 integers the
+// contract stores. Digits are handled as text and bigint throughout, so
+// "0.29" at 2 decimals is 29, never the 28 that 0.29 * 100 gives in floats.
+
+const DECIMAL_INPUT = /^(\d*)(?:\.(\d*))?$/;
+
+const pow10 = (decimals: number) => BigInt(10) ** BigInt(decimals);
+
+// Render an integer scaled by 10^decimals as a plain decimal string, padding
+// the fraction to at least `minFractionDigits`: 2900n at 2 decimals is "29"
+// or, with minFractionDigits = 2, "29.00"
+export const formatFixedPoint = (value: bigint, decimals: number, minFractionDigits = 0): string => {
+  const negative = value < BigInt(0);
+  const magnitude = negative ? -value : value;
+  const whole = (magnitude / pow10(decimals)).toString();
+  const fraction = decimals > 0
+    ? (magnitude % pow10(decimals)).toString().padStart(decimals, '0').replace(/0+$/, '').padEnd(minFractionDigits, '0')
+    : '';
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+// Largest number a field scaled by 10^decimals can hold, as a decimal string
+export const maxFixedPoint = (decimals: number): string => formatFixedPoint(MAX_UINT128, decimals);
+
+// Parse a decimal string into an integer scaled by 10^decimals. Throws
+// InvalidAmountError, naming the field by `label`, for anything that is not a
+// plain non-negative decimal, has more fraction digits than `decimals`, or
+// does not fit in a uint128.
+export const parseFixedPoint = (input: string, decimals: number, label = 'Amount'): bigint => {
+  const text = input.trim();
+  const match = DECIMAL_INPUT.exec(text);
+  if (!text || !match || (!match[1] && !match[2])) {
+    throw new InvalidAmountError(`${label} must be a number like 12.5`);
+  }
+
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+  if (fraction.length > decimals) {
+    throw new InvalidAmountError(
+      decimals === 0
+        ? `${label} must be a whole number`
+        : `${label} has more than ${decimals} decimal place${decimals === 1 ? '' : 's'}`
+    );
+  }
+
+  const scaled = BigInt((match[1] || '0') + fraction.padEnd(decimals, '0'));
+  if (scaled > MAX_UINT128) {
+    throw new InvalidAmountError(`${label} is too large; the most that can be stored is ${maxFixedPoint(decimals)}`);
+  }
+  return scaled;
+};
+
+// Why an amount or value typed into a form can't be stored, or null when it can.
+// Holdings are always positive, so zero is rejected too.
+export const fixedPointError = (input: string, decimals: number, label = 'Amount'): string | null => {
+  try {
+    return parseFixedPoint(input, decimals, label) > BigInt(0) ? null : `${label} must be greater than 0`;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
@@ -0,0 +1,177 @@
+import { validateAssetChanges } from './batch';
+import { fixedPointError } from './fixedPoint';
+import { AssetChangeType, VALUE_DECIMALS } from './types';
+
+// A holding as read from an import file; amount and value stay unscaled decimal strings
+export interface Holding {
+  symbol: string;
+  amount: string;
+  value: string;
+}
+
+// A row of an import file that can't be used, with its 1-based line (CSV) or index (JSON)
+export interface HoldingError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedHoldings {
+  holdings: Holding[];
+  errors: HoldingError[];
+}
+
+// One step of the reconcile plan; removals carry no amount or value
+export interface ImportPlanItem {
+  type: AssetChangeType;
+  symbol: string;
+  amount: string;
+  value: string;
+}
+
+// Split one CSV line, honouring double-quoted fields ("" escapes a quote)
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+};
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+// Apply the contract's validAsset rules, plus amount and value > 0, to one row.
+// Values are checked exactly; amounts only for their form, since how many
+// digits fit depends on the asset's decimals, which the app knows.
+const validateHolding = (raw: { symbol?: unknown; amount?: unknown; value?: unknown }): Holding | string => {
+  const symbol = String(raw.symbol ?? '').trim().toUpperCase();
+  const amount = String(raw.amount ?? '').trim();
+  const value = String(raw.value ?? '').trim();
+
+  const symbolError = validateAssetChanges([{ type: 'add', symbol }], [])[0];
+  if (symbolError) return symbolError;
+  if (!DECIMAL_PATTERN.test(amount) || !/[1-9]/.test(amount)) return `${symbol}: amount must be a number greater than 0`;
+  const valueError = fixedPointError(value, VALUE_DECIMALS, `${symbol}: value`);
+  if (valueError) return valueError;
+  return { symbol, amount, value };
+};
+
+// Validate rows and reject symbols that appear more than once
+const collect = (rows: { line: number; raw: Record<string, unknown> }[]): ParsedHoldings => {
+  const holdings: Holding[] = [];
+  const errors: HoldingError[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, raw } of rows) {
+    const result = validateHolding(raw);
+    if (typeof result === 'string') {
+      errors.push({ line, message: result });
+    } else if (seen.has(result.symbol)) {
+      errors.push({ line, message: `${result.symbol}: duplicate symbol` });
+    } else {
+      seen.add(result.symbol);
+      holdings.push(result);
+    }
+  }
+  return { holdings, errors };
+};
+
+// CSV with symbol, amount and value columns; a header row is optional
+export const parseHoldingsCsv = (text: string): ParsedHoldings => {
+  const lines = text.split(/\r?\n/)
+    .map((content, index) => ({ line: index + 1, fields: splitCsvLine(content) }))
+    .filter(({ fields }) => fields.some(field => field !== ''));
+
+  let columns = { symbol: 0, amount: 1, value: 2 };
+  const header = lines[0]?.fields.map(field => field.toLowerCase());
+  if (header?.includes('symbol')) {
+    columns = {
+      symbol: header.indexOf('symbol'),
+      amount: header.indexOf('amount'),
+      value: header.indexOf('value')
+    };
+    lines.shift();
+    if (columns.amount < 0 || columns.value < 0) {
+      return { holdings: [], errors: [{ line: 1, message: 'Header must have symbol, amount and value columns' }] };
+    }
+  }
+
+  return collect(lines.map(({ line, fields }) => ({
+    line,
+    raw: { symbol: fields[columns.symbol], amount: fields[columns.amount], value: fields[columns.value] }
+  })));
+};
+
+// JSON array of { symbol, amount, value }, or an object with such an `assets` array
+export const parseHoldingsJson = (text: string): ParsedHoldings => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { holdings: [], errors: [{ line: 0, message: 'File is not valid JSON' }] };
+  }
+
+  const rows = Array.isArray(data) ? data : (data as { assets?: unknown })?.assets;
+  if (!Array.isArray(rows)) {
+    return { holdings: [], errors: [{ line: 0, message: 'Expected an array of holdings' }] };
+  }
+
+  return collect(rows.map((raw, index) => ({
+    line: index + 1,
+    raw: typeof raw === 'object' && raw !== null ? raw : {}
+  })));
+};
+
+// Pick the parser from the file name, falling back to sniffing the content
+export const parseHoldingsFile = (fileName: string, text: string): ParsedHoldings => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.json') || (!name.endsWith('.csv') && /^\s*[[{]/.test(text))) {
+    return parseHoldingsJson(text);
+  }
+  return parseHoldingsCsv(text);
+};
+
+// Diff imported holdings against the on-chain symbols: new symbols are added,
+// held ones updated, and (optionally) held symbols missing from the file removed
+export const planImport = (
+  holdings: Holding[],
+  existingSymbols: string[],
+  removeMissing: boolean
+): ImportPlanItem[] => {
+  const held = new Set(existingSymbols);
+  const imported = new Set(holdings.map(holding => holding.symbol));
+
+  const plan: ImportPlanItem[] = holdings.map(holding => ({
+    type: held.has(holding.symbol) ? 'update' : 'add',
+    ...holding
+  }));
+
+  if (removeMissing) {
+    for (const symbol of existingSymbols) {
+      if (!imported.has(symbol)) {
+        plan.push({ type: 'remove', symbol, amount: '', value: '' });
+      }
+    }
+  }
+  return plan;
+};
@@ -0,0 +1,27 @@
+export { PortfolioClient, encryptAmounts, decryptAsset } from './PortfolioClient';
+export { CONTRACT_ABI } from './abi';
+export { validateAssetChanges } from './batch';
+export { ActivityIndexer, mergeActivity } from './events';
+export type { ActivityEvent, ActivityType, FetchActivityOptions } from './events';
+export { parseHoldingsCsv, parseHoldingsJson, parseHoldingsFile, planImport } from './holdings';
+export type { Holding, HoldingError, ParsedHoldings, ImportPlanItem } from './holdings';
+export { createSnapshot, signSnapshot, verifySnapshot, snapshotToCsv, snapshotToJson } from './snapshot';
+export type { PortfolioSnapshot, SignedSnapshot, SnapshotAsset } from './snapshot';
+export { formatFixedPoint, maxFixedPoint, parseFixedPoint, fixedPointError } from './fixedPoint';
+export { analyzePortfolio, findStaleAssets, portfolioValueHistory } from './analytics';
+export type { AllocationSlice, AssetValueHistory, ConcentrationMetrics, PortfolioAnalytics, StaleAsset } from './analytics';
+export { ChainlinkPriceSource, StaticPriceSource, MockPriceSource, MOCK_PRICES, computeValue } from './prices';
+export type { ChainlinkFeed, Price, PriceSource } from './prices';
+export {
+  deriveViewerKey,
+  getViewerKeyMessage,
+  sealPortfolioKey,
+  sealAssetKey,
+  openGrants,
+  findSharedPortfolios,
+  getSharedAssets
+} from './sharing';
+export type { ViewerKey, SharedPortfolio } from './sharing';
+export * from './encryption';
+export * from './errors';
+export * from './types';
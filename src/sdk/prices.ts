@@ -0,0 +1,165 @@
+import { ethers } from 'ethers';
+import { StalePriceError } from './errors';
+import { AMOUNT_DECIMALS, VALUE_DECIMALS } from './types';
+
+// USD price of one whole unit of an asset, as a fixed-point integer
+export interface Price {
+  symbol: string;
+  value: bigint;    // price * 10^decimals
+  decimals: number;
+  updatedAt: Date;
+}
+
+// Anything that can quote USD prices; returns null for symbols it doesn't cover
+export interface PriceSource {
+  readonly name: string;
+  getPrice(symbol: string): Promise<Price | null>;
+}
+
+// Chainlink feeds quote USD pairs with 8 decimals; other sources use the same scale
+const PRICE_DECIMALS = 8;
+
+// A Chainlink USD aggregator and its heartbeat: the longest the feed goes
+// without a new round, even when the price is flat. Heartbeats differ per feed
+// and per chain; see https://data.chain.link
+export interface ChainlinkFeed {
+  address: string;
+  heartbeatSeconds: number;
+}
+
+const AGGREGATOR_ABI = [
+  "function decimals() external view returns (uint8)",
+  "function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+] as const;
+
+// Parse a decimal number or string into a fixed-point integer, dropping extra digits.
+// Exponent notation is accepted, as JSON numbers such as 1e-7 stringify to it;
+// exponents beyond what a JS number can hold are rejected.
+const parseDecimal = (input: unknown, decimals: number): bigint | null => {
+  const text = String(input).trim();
+  const match = /^(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match) return null;
+  const exponent = Number(match[3] || 0);
+  if (Math.abs(exponent) > 308) return null;
+
+  // Move the decimal point by the exponent, then scale by 10^decimals
+  const digits = match[1] + (match[2] || '');
+  const shift = match[1].length + exponent + decimals - digits.length;
+  return shift >= 0
+    ? BigInt(digits + '0'.repeat(shift))
+    : BigInt(digits.slice(0, Math.max(digits.length + shift, 0)) || '0');
+};
+
+// Reads Chainlink-style AggregatorV3 contracts, one feed per symbol. Rounds
+// older than their feed's heartbeat mean the feed has stopped, and throw
+// StalePriceError instead of being quoted.
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = 'Chainlink';
+  private readonly runner: ethers.ContractRunner;
+  private readonly feeds: Record<string, ChainlinkFeed>;
+
+  constructor(runner: ethers.ContractRunner, feeds: Record<string, ChainlinkFeed>) {
+    this.runner = runner;
+    this.feeds = feeds;
+  }
+
+  async getPrice(symbol: string): Promise<Price | null> {
+    const feed = this.feeds[symbol.toUpperCase()];
+    if (!feed) return null;
+
+    const aggregator = new ethers.Contract(feed.address, AGGREGATOR_ABI, this.runner);
+    const [decimals, round] = await Promise.all([aggregator.decimals(), aggregator.latestRoundData()]);
+    if (round.answer <= BigInt(0)) return null;
+
+    const updatedAt = new Date(Number(round.updatedAt) * 1000);
+    if (Date.now() - updatedAt.getTime() > feed.heartbeatSeconds * 1000) {
+      throw new StalePriceError(symbol.toUpperCase(), updatedAt);
+    }
+
+    return {
+      symbol: symbol.toUpperCase(),
+      value: round.answer,
+      decimals: Number(decimals),
+      updatedAt
+    };
+  }
+}
+
+// Prices from a JSON file mapping symbols to USD prices, e.g. { "BTC": 45000.5 }.
+// The file is fetched once and cached.
+export class StaticPriceSource implements PriceSource {
+  readonly name = 'Price File';
+  private readonly url: string;
+  private prices?: Promise<{ prices: Record<string, unknown>; updatedAt: Date }>;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  private load() {
+    this.prices ??= fetch(this.url).then(async response => {
+      if (!response.ok) {
+        this.prices = undefined; // retry on the next lookup
+        throw new Error(`Failed to load prices from ${this.url}: ${response.status}`);
+      }
+      const data = await response.json();
+      return { prices: data.prices ?? data, updatedAt: new Date(response.headers.get('last-modified') ?? Date.now()) };
+    });
+    return this.prices;
+  }
+
+  async getPrice(symbol: string): Promise<Price | null> {
+    const { prices, updatedAt } = await this.load();
+    const raw = prices[symbol.toUpperCase()];
+    const value = raw === undefined ? null : parseDecimal(raw, PRICE_DECIMALS);
+    if (value === null || value === BigInt(0)) return null;
+
+    return { symbol: symbol.toUpperCase(), value, decimals: PRICE_DECIMALS, updatedAt };
+  }
+}
+
+// Rough USD prices for the mock feed
+export const MOCK_PRICES: Record<string, number> = {
+  BTC: 65000,
+  ETH: 3200,
+  USDT: 1,
+  BNB: 580,
+  ADA: 0.45,
+  SOL: 150,
+  DOT: 6.5,
+  LINK: 14,
+  MATIC: 0.7,
+  AVAX: 28,
+  UNI: 8,
+  ATOM: 7
+};
+
+// Local feed for development: fixed prices with an optional random drift of up to ±`drift` per quote
+export class MockPriceSource implements PriceSource {
+  readonly name = 'Mock Feed';
+  private readonly prices: Record<string, number>;
+  private readonly drift: number;
+
+  constructor(prices: Record<string, number> = MOCK_PRICES, drift = 0.02) {
+    this.prices = prices;
+    this.drift = drift;
+  }
+
+  async getPrice(symbol: string): Promise<Price | null> {
+    const base = this.prices[symbol.toUpperCase()];
+    if (base === undefined) return null;
+
+    const price = base * (1 + (Math.random() * 2 - 1) * this.drift);
+    return {
+      symbol: symbol.toUpperCase(),
+      value: parseDecimal(price.toFixed(PRICE_DECIMALS), PRICE_DECIMALS)!,
+      decimals: PRICE_DECIMALS,
+      updatedAt: new Date()
+    };
+  }
+}
+
+// USD value (scaled by VALUE_DECIMALS) of an amount scaled by amountDecimals, rounded down
+export const computeValue = (amount: bigint, price: Price, amountDecimals = AMOUNT_DECIMALS): bigint =>
+  amount * price.value * BigInt(10) ** BigInt(VALUE_DECIMALS) /
+  (BigInt(10) ** BigInt(amountDecimals + price.decimals));
@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+import { PortfolioClient, decryptAsset } from './PortfolioClient';
+import { AccountKey, PortfolioKey, exportAssetKey, exportPortfolioKeyMaterial, importAssetKeys, importMasterKey } from './encryption';
+import { toPortfolioError } from './errors';
+import { AccessGrant, Asset } from './types';
+
+// Sharing decryption keys with viewers through on-chain grants.
+//
+// A viewer publishes a secp256k1 public key derived from a wallet signature.
+// The owner seals a key to it with ECDH against a one-time key, HKDF and
+// AES-GCM, and stores the result in the grant. Whole-portfolio grants carry the
+// portfolio's master key material, per-symbol grants only that asset's key.
+//
+// The contract stops serving ciphertexts once a grant expires or is revoked,
+// but a viewer keeps any key already opened: revoking does not re-encrypt.
+
+// Layout of a sealed key: version (1 byte) | one-time public key (33 bytes) | IV (12 bytes) | AES-GCM output
+const SEALED_KEY_VERSION = 1;
+const PUBLIC_KEY_LENGTH = 33;
+const IV_LENGTH = 12;
+
+const toBuffer = (data: ethers.BytesLike) => new Uint8Array(ethers.getBytes(data));
+const utf8 = (text: string) => toBuffer(ethers.toUtf8Bytes(text));
+
+const HKDF_SALT = utf8('confidential-portfolio/grant/v1');
+
+export interface ViewerKey {
+  account: string;
+  signingKey: ethers.SigningKey;
+  publicKey: string; // compressed, as registered with setViewerKey
+}
+
+// A portfolio shared with a viewer and the viewer's active grants on it
+export interface SharedPortfolio {
+  owner: string;
+  portfolioId: number;
+  name: string;
+  grants: AccessGrant[];
+}
+
+// Message the viewer signs to derive their viewer key
+export const getViewerKeyMessage = (account: string) =>
+  [
+    'Confidential Portfolio - unlock viewer key',
+    '',
+    `Account: ${ethers.getAddress(account)}`,
+    '',
+    'This key opens portfolios other accounts have shared with you.',
+    'Signing this message does not send a transaction or cost any gas.'
+  ].join('\n');
+
+export const deriveViewerKey = async (signer: ethers.Signer): Promise<ViewerKey> => {
+  const account = await signer.getAddress();
+  const signature = await signer.signMessage(getViewerKeyMessage(account));
+  const signingKey = new ethers.SigningKey(ethers.keccak256(signature));
+  return { account: ethers.getAddress(account), signingKey, publicKey: signingKey.compressedPublicKey };
+};
+
+// Binds a sealed key to the grant it was made for, so it can't be replayed elsewhere
+const grantContext = (owner: string, portfolioId: number, viewer: string, symbol: string) =>
+  `${ethers.getAddress(owner)}:${portfolioId}:${ethers.getAddress(viewer)}:${symbol}`;
+
+const sealingKey = async (sharedSecret: string): Promise<CryptoKey> => {
+  const secret = await crypto.subtle.importKey('raw', toBuffer(sharedSecret), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: HKDF_SALT, info: utf8('sealed-key') },
+    secret,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const sealKey = async (viewerPublicKey: string, secret: Uint8Array, context: string): Promise<string> => {
+  const oneTimeKey = new ethers.SigningKey(ethers.randomBytes(32));
+  const aesKey = await sealingKey(oneTimeKey.computeSharedSecret(viewerPublicKey));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: utf8(context) }, aesKey, toBuffer(secret));
+  return ethers.concat([new Uint8Array([SEALED_KEY_VERSION]), oneTimeKey.compressedPublicKey, iv, new Uint8Array(sealed)]);
+};
+
+const openSealedKey = async (viewerKey: ViewerKey, sealedKey: string, context: string): Promise<Uint8Array> => {
+  const bytes = ethers.getBytes(sealedKey);
+  if (bytes[0] !== SEALED_KEY_VERSION) {
+    throw new Error('Unsupported sealed key format');
+  }
+
+  const oneTimePublicKey = ethers.hexlify(bytes.slice(1, 1 + PUBLIC_KEY_LENGTH));
+  const iv = bytes.slice(1 + PUBLIC_KEY_LENGTH, 1 + PUBLIC_KEY_LENGTH + IV_LENGTH);
+  const sealed = bytes.slice(1 + PUBLIC_KEY_LENGTH + IV_LENGTH);
+  const aesKey = await sealingKey(viewerKey.signingKey.computeSharedSecret(oneTimePublicKey));
+  const secret = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: utf8(context) }, aesKey, sealed);
+  return new Uint8Array(secret);
+};
+
+// Sealed key for a whole-portfolio grant
+export const sealPortfolioKey = async (
+  accountKey: AccountKey,
+  portfolioId: number,
+  viewer: string,
+  viewerPublicKey: string
+): Promise<string> =>
+  sealKey(
+    viewerPublicKey,
+    await exportPortfolioKeyMaterial(accountKey, portfolioId),
+    grantContext(accountKey.account, portfolioId, viewer, '')
+  );
+
+// Sealed key for a grant on one asset
+export const sealAssetKey = async (
+  key: PortfolioKey,
+  symbol: string,
+  viewer: string,
+  viewerPublicKey: string
+): Promise<string> =>
+  sealKey(viewerPublicKey, await exportAssetKey(key, symbol), grantContext(key.account, key.portfolioId, viewer, symbol));
+
+const isActive = (grant: AccessGrant, viewer: string, now: Date) =>
+  grant.viewer.toLowerCase() === viewer.toLowerCase() && grant.expiresAt > now;
+
+// Key that opens what the viewer's active grants on a portfolio cover, or null without any
+export const openGrants = async (
+  viewerKey: ViewerKey,
+  owner: string,
+  portfolioId: number,
+  grants: AccessGrant[]
+): Promise<PortfolioKey | null> => {
+  const active = grants.filter(grant => isActive(grant, viewerKey.account, new Date()));
+
+  const whole = active.find(grant => grant.symbol === '');
+  if (whole) {
+    const material = await openSealedKey(viewerKey, whole.sealedKey, grantContext(owner, portfolioId, viewerKey.account, ''));
+    return importMasterKey(owner, portfolioId, material);
+  }
+
+  if (active.length === 0) return null;
+  const rawKeys: Record<string, Uint8Array> = {};
+  for (const grant of active) {
+    rawKeys[grant.symbol] = await openSealedKey(
+      viewerKey, grant.sealedKey, grantContext(owner, portfolioId, viewerKey.account, grant.symbol)
+    );
+  }
+  return importAssetKeys(owner, portfolioId, rawKeys);
+};
+
+// Portfolios with an active grant for `viewer`, found from AccessGranted events
+export const findSharedPortfolios = async (
+  client: PortfolioClient,
+  viewer: string,
+  fromBlock = 0
+): Promise<SharedPortfolio[]> => {
+  let logs: (ethers.EventLog | ethers.Log)[];
+  try {
+    logs = await client.contract.queryFilter(client.contract.filters.AccessGranted(null, viewer), fromBlock);
+  } catch (error) {
+    throw toPortfolioError(error);
+  }
+
+  // Topics: event signature, owner, viewer, portfolio ID
+  const portfolioIds = Array.from(new Set(logs.map(log => Number(ethers.toBigInt(log.topics[3])))));
+  const now = new Date();
+  const shared = await Promise.all(portfolioIds.map(async (portfolioId): Promise<SharedPortfolio | null> => {
+    // Closed since the grant was made
+    if (!await client.portfolioExists(portfolioId)) return null;
+    const [portfolio, grants] = await Promise.all([client.getPortfolio(portfolioId), client.getGrants(portfolioId)]);
+    return {
+      owner: portfolio.owner,
+      portfolioId,
+      name: portfolio.name,
+      grants: grants.filter(grant => isActive(grant, viewer, now))
+    };
+  }));
+  return shared.filter((portfolio): portfolio is SharedPortfolio => portfolio !== null && portfolio.grants.length > 0);
+};
+
+// The assets of a shared portfolio the viewer can read, decrypted; the rest
+// come back from the contract without ciphertexts and are left out
+export const getSharedAssets = async (client: PortfolioClient, portfolioId: number, key: PortfolioKey): Promise<Asset[]> => {
+  const encrypted = await client.getEncryptedAssets(portfolioId);
+  const readable = encrypted.filter(asset => ethers.dataLength(asset.encryptedAmount) > 0);
+  return Promise.all(readable.map(asset => decryptAsset(asset, key)));
+};
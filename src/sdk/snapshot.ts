@@ -0,0 +1,154 @@
+import { ethers } from 'ethers';
+import { PortfolioClient } from './PortfolioClient';
+import { PortfolioKey } from './encryption';
+import { formatFixedPoint } from './fixedPoint';
+import { VALUE_DECIMALS } from './types';
+
+// Decrypted holding as written to an export file
+export interface SnapshotAsset {
+  symbol: string;
+  amount: string;     // unscaled decimal, e.g. "1.5"
+  value: string;      // USD, e.g. "45000.5"
+  lastUpdate: number; // unix seconds
+}
+
+// A portfolio of `owner` as it was at `blockNumber`
+export interface PortfolioSnapshot {
+  owner: string;
+  portfolioId: number;
+  portfolioName: string;
+  contractAddress: string;
+  chainId: number;
+  blockNumber: number;
+  assets: SnapshotAsset[];
+}
+
+// A snapshot with the owner's EIP-712 signature over it
+export interface SignedSnapshot extends PortfolioSnapshot {
+  signature: string;
+}
+
+const HOLDING_TYPE: ethers.TypedDataField[] = [
+  { name: 'symbol', type: 'string' },
+  { name: 'amount', type: 'string' },
+  { name: 'value', type: 'string' },
+  { name: 'lastUpdate', type: 'uint256' }
+];
+
+// EIP-712 types of a snapshot; the domain binds it to the contract and chain
+const SNAPSHOT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Snapshot: [
+    { name: 'owner', type: 'address' },
+    { name: 'portfolioId', type: 'uint256' },
+    { name: 'portfolioName', type: 'string' },
+    { name: 'blockNumber', type: 'uint256' },
+    { name: 'assets', type: 'Holding[]' }
+  ],
+  Holding: HOLDING_TYPE
+};
+
+// Version 1 snapshots predate multiple portfolios per owner; still verifiable
+const SNAPSHOT_TYPES_V1: Record<string, ethers.TypedDataField[]> = {
+  Snapshot: [
+    { name: 'owner', type: 'address' },
+    { name: 'blockNumber', type: 'uint256' },
+    { name: 'assets', type: 'Holding[]' }
+  ],
+  Holding: HOLDING_TYPE
+};
+
+const isV1 = (snapshot: PortfolioSnapshot) => snapshot.portfolioId === undefined;
+
+const snapshotDomain = (snapshot: PortfolioSnapshot): ethers.TypedDataDomain => ({
+  name: 'ConfidentialPortfolio Snapshot',
+  version: isV1(snapshot) ? '1' : '2',
+  chainId: snapshot.chainId,
+  verifyingContract: snapshot.contractAddress
+});
+
+const snapshotMessage = (snapshot: PortfolioSnapshot) =>
+  isV1(snapshot)
+    ? { owner: snapshot.owner, blockNumber: snapshot.blockNumber, assets: snapshot.assets }
+    : {
+        owner: snapshot.owner,
+        portfolioId: snapshot.portfolioId,
+        portfolioName: snapshot.portfolioName,
+        blockNumber: snapshot.blockNumber,
+        assets: snapshot.assets
+      };
+
+// Read and decrypt a whole portfolio at the latest block; every read is pinned to
+// that block so the signed snapshot reflects a single chain state
+export const createSnapshot = async (
+  client: PortfolioClient,
+  portfolioId: number,
+  key: PortfolioKey
+): Promise<PortfolioSnapshot> => {
+  const [blockNumber, chainId] = await Promise.all([client.getBlockNumber(), client.getChainId()]);
+  const [portfolio, assets] = await Promise.all([
+    client.getPortfolio(portfolioId, blockNumber),
+    client.getAssets(portfolioId, key, blockNumber)
+  ]);
+
+  return {
+    owner: ethers.getAddress(portfolio.owner),
+    portfolioId,
+    portfolioName: portfolio.name,
+    contractAddress: ethers.getAddress(client.address),
+    chainId,
+    blockNumber,
+    assets: assets.map(asset => ({
+      symbol: asset.symbol,
+      amount: formatFixedPoint(asset.amount, asset.decimals),
+      value: formatFixedPoint(asset.value, VALUE_DECIMALS, VALUE_DECIMALS),
+      lastUpdate: Math.floor(asset.lastUpdate.getTime() / 1000)
+    }))
+  };
+};
+
+// Sign a snapshot with EIP-712; the signer must be the snapshot's owner
+export const signSnapshot = async (signer: ethers.Signer, snapshot: PortfolioSnapshot): Promise<SignedSnapshot> => {
+  const signature = await signer.signTypedData(snapshotDomain(snapshot), SNAPSHOT_TYPES, snapshotMessage(snapshot));
+  return { ...snapshot, signature };
+};
+
+// True when the signature was made by the snapshot's owner over exactly this content
+export const verifySnapshot = (snapshot: SignedSnapshot): boolean => {
+  try {
+    const signer = ethers.verifyTypedData(
+      snapshotDomain(snapshot),
+      isV1(snapshot) ? SNAPSHOT_TYPES_V1 : SNAPSHOT_TYPES,
+      snapshotMessage(snapshot),
+      snapshot.signature
+    );
+    return signer.toLowerCase() === snapshot.owner.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+// Quote a CSV field when it contains a separator, quote or newline
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per asset; the symbol, amount and value columns can be imported again
+export const snapshotToCsv = (snapshot: PortfolioSnapshot): string => {
+  const header = ['symbol', 'amount', 'value', 'lastUpdate', 'owner', 'portfolioId', 'contract', 'chainId', 'blockNumber'];
+  const rows = snapshot.assets.map(asset => [
+    asset.symbol,
+    asset.amount,
+    asset.value,
+    new Date(asset.lastUpdate * 1000).toISOString(),
+    snapshot.owner,
+    snapshot.portfolioId,
+    snapshot.contractAddress,
+    snapshot.chainId,
+    snapshot.blockNumber
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+export const snapshotToJson = (snapshot: PortfolioSnapshot | SignedSnapshot): string =>
+  JSON.stringify(snapshot, null, 2) + '\n';
@@ -0,0 +1,86 @@
+// Fixed-point scales of the plaintext values stored in ciphertexts. Amounts
+// use their asset's decimals where known; AMOUNT_DECIMALS is the default.
+export const AMOUNT_DECIMALS = 6; // holdings amount, e.g. 0.5 BTC -> 500000
+export const VALUE_DECIMALS = 2;  // USD value in cents
+
+// Contract limits mirrored from the validAsset modifier and the MAX_* constants
+export const MAX_SYMBOL_LENGTH = 10;
+export const MAX_BATCH_SIZE = 20;
+export const MAX_GRANTS = 50;
+export const MAX_CHECKPOINTS = 100;
+export const MAX_PORTFOLIOS = 20;
+export const MAX_PORTFOLIO_NAME_LENGTH = 32;
+
+// One of an owner's named portfolios; IDs are unique across the contract
+export interface PortfolioInfo {
+  id: number;
+  owner: string;
+  name: string;
+  assetCount: number;
+  createdAt: Date;
+}
+
+// Public, unencrypted metadata of an asset
+export interface AssetRecord {
+  symbol: string;
+  lastUpdate: Date;
+}
+
+// Asset as stored on-chain, with its ciphertexts
+export interface EncryptedAsset extends AssetRecord {
+  encryptedAmount: string;
+  encryptedValue: string;
+}
+
+// Asset decrypted with the owner's key; amount and value are scaled integers
+export interface Asset extends AssetRecord {
+  amount: bigint;
+  decimals: number; // scale of amount, as stored in its ciphertext
+  value: bigint;
+}
+
+// Encrypted value of an asset as of an add or update
+export interface EncryptedCheckpoint {
+  timestamp: Date;
+  encryptedValue: string;
+}
+
+// Decrypted value checkpoint; value is a scaled integer
+export interface ValuePoint {
+  timestamp: Date;
+  value: bigint;
+}
+
+// Ciphertext pair submitted by addAsset / updateAsset
+export interface EncryptedAmounts {
+  encryptedAmount: string;
+  encryptedValue: string;
+}
+
+// One row of an applyAssetChanges batch
+export type AssetChange =
+  | { type: 'add'; symbol: string; amounts: EncryptedAmounts }
+  | { type: 'update'; symbol: string; amounts: EncryptedAmounts }
+  | { type: 'remove'; symbol: string };
+
+export type AssetChangeType = AssetChange['type'];
+
+// Read access given by a portfolio owner to a viewer
+export interface AccessGrant {
+  viewer: string;
+  symbol: string;    // empty for the whole portfolio
+  expiresAt: Date;
+  sealedKey: string; // decryption key sealed to the viewer's public key
+}
+
+export type PortfolioOperation =
+  | { type: 'createPortfolio'; name: string }
+  | { type: 'renamePortfolio'; portfolioId: number; name: string }
+  | { type: 'closePortfolio'; portfolioId: number }
+  | { type: 'addAsset'; portfolioId: number; symbol: string; amounts: EncryptedAmounts }
+  | { type: 'updateAsset'; portfolioId: number; symbol: string; amounts: EncryptedAmounts }
+  | { type: 'removeAsset'; portfolioId: number; symbol: string }
+  | { type: 'applyAssetChanges'; portfolioId: number; changes: AssetChange[] }
+  | { type: 'setViewerKey'; publicKey: string }
+  | { type: 'grantAccess'; portfolioId: number; viewer: string; symbol: string; expiresAt: Date; sealedKey: string }
+  | { type: 'revokeAccess'; portfolioId: number; viewer: string; symbol: string };
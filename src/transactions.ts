@@ -0,0 +1,109 @@
+// Transaction history, kept in IndexedDB per account and chain so it survives
+// reloads and pending transactions can be picked up again on the next visit.
+
+import { ethers } from 'ethers';
+
+// 'replaced' and 'cancelled' mark a transaction whose nonce was taken by another
+// one (a speed-up or a 0-ETH self-transfer); `replacedBy` names the winner
+export type TransactionState = 'pending' | 'confirmed' | 'failed' | 'dropped' | 'replaced' | 'cancelled';
+
+export type ReplacementMode = 'speedup' | 'cancel';
+
+export interface TransactionRecord {
+  hash: string;
+  account: string; // lowercase
+  chainId: string; // hex, as returned by eth_chainId
+  description: string;
+  status: TransactionState;
+  submittedAt: number; // ms since epoch
+  nonce?: number;
+  startBlock?: number; // block when sent; lets ethers detect replacements from there on
+  replaces?: string;   // hash of the transaction this one replaces
+  replacedBy?: string;
+  blockNumber?: number;
+  confirmations?: number;
+  gasUsed?: string;           // decimal
+  effectiveGasPrice?: string; // wei, decimal
+  fee?: string;               // gasUsed * effectiveGasPrice in wei, decimal
+}
+
+const DB_NAME = 'confidential-portfolio';
+const DB_VERSION = 1;
+const STORE = 'transactions';
+const ACCOUNT_CHAIN_INDEX = 'accountChain';
+
+let database: Promise<IDBDatabase> | undefined;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'hash' });
+      store.createIndex(ACCOUNT_CHAIN_INDEX, ['account', 'chainId']);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = undefined;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Insert a record, or merge it into the stored one with the same hash
+export const saveTransaction = async (record: TransactionRecord): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  const existing: TransactionRecord | undefined = await promisify(store.get(record.hash));
+  await promisify(store.put({
+    ...existing,
+    ...record,
+    submittedAt: existing?.submittedAt ?? record.submittedAt,
+    account: record.account.toLowerCase(),
+    chainId: record.chainId.toLowerCase()
+  }));
+};
+
+// Every transaction of an account on a chain, newest first
+export const loadTransactions = async (account: string, chainId: string): Promise<TransactionRecord[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index(ACCOUNT_CHAIN_INDEX);
+  const records: TransactionRecord[] = await promisify(
+    index.getAll(IDBKeyRange.only([account.toLowerCase(), chainId.toLowerCase()]))
+  );
+  return records.sort((a, b) => b.submittedAt - a.submittedAt);
+};
+
+// Nodes only accept a replacement that raises the original's fees by at least
+// 10%; bump them by 20%, and never below what the network currently asks for
+const bump = (fee: bigint) => fee * BigInt(120) / BigInt(100);
+const max = (a: bigint, b: bigint | null) => (b !== null && b > a ? b : a);
+
+export const replacementFees = (original: ethers.TransactionResponse, current: ethers.FeeData) => {
+  if (original.maxFeePerGas !== null && original.maxPriorityFeePerGas !== null) {
+    const maxPriorityFeePerGas = max(bump(original.maxPriorityFeePerGas), current.maxPriorityFeePerGas);
+    const maxFeePerGas = max(max(bump(original.maxFeePerGas), current.maxFeePerGas), maxPriorityFeePerGas);
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+  return { gasPrice: max(bump(original.gasPrice), current.gasPrice) };
+};
+
+// Request that re-sends the original call, or sends 0 ETH to the sender to cancel it,
+// under the original's nonce
+export const buildReplacement = (
+  original: ethers.TransactionResponse,
+  mode: ReplacementMode,
+  current: ethers.FeeData
+): ethers.TransactionRequest => ({
+  ...(mode === 'cancel'
+    ? { to: original.from, value: 0, data: '0x', gasLimit: 21000 }
+    : { to: original.to, value: original.value, data: original.data, gasLimit: original.gasLimit }),
+  nonce: original.nonce,
+  ...replacementFees(original, current)
+});
@@ -1 +1,13 @@
-/// <reference types="vite/client" />
\ No newline at end of file
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SEPOLIA_CONTRACT_ADDRESS?: string;
+  readonly VITE_SEPOLIA_DEPLOYMENT_BLOCK?: string;
+  readonly VITE_SEPOLIA_RPC_URL?: string;
+  readonly VITE_BASE_SEPOLIA_CONTRACT_ADDRESS?: string;
+  readonly VITE_HARDHAT_CONTRACT_ADDRESS?: string;
+  readonly VITE_HARDHAT_RPC_URL?: string;
+  readonly VITE_PRICE_FILE_URL?: string;
+  readonly VITE_TOKEN_LIST_URL?: string;
+  readonly VITE_DEV_PRIVATE_KEY?: string;
+}
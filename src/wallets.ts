@@ -0,0 +1,75 @@
+// Wallet discovery.
+//
+// Extensions announce themselves through EIP-6963, so several wallets can be
+// offered side by side instead of whichever one claimed window.ethereum last.
+// A wallet that only injects window.ethereum is offered when nothing announces,
+// and in development a local dev signer is always available.
+
+import { createDevWallet } from './devWallet';
+import { HARDHAT_CHAIN_ID, getNetwork } from './networks';
+
+// Minimal EIP-1193 provider, as injected by wallet extensions
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<any>;
+  on?(event: string, listener: (...args: any[]) => void): void;
+  removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+// EIP-6963 provider info
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string; // data URI
+  rdns: string;
+}
+
+export interface WalletOption {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+}
+
+interface AnnounceProviderEvent extends CustomEvent {
+  detail: WalletOption;
+}
+
+// Hardhat's first default account; only ever used against a local node
+const HARDHAT_TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const legacyWallet = (): WalletOption | null => window.ethereum ? {
+  info: { uuid: 'injected', name: window.ethereum.isMetaMask ? 'MetaMask' : 'Browser Wallet', icon: '', rdns: 'injected' },
+  provider: window.ethereum
+} : null;
+
+let devWallet: WalletOption | undefined;
+
+const getDevWallet = (): WalletOption => {
+  const rpcUrl = getNetwork(HARDHAT_CHAIN_ID)?.rpcUrls[0] ?? 'http://127.0.0.1:8545';
+  devWallet ??= {
+    info: { uuid: 'dev', name: 'Local Dev Signer', icon: '', rdns: 'dev.local' },
+    provider: createDevWallet(rpcUrl, import.meta.env.VITE_DEV_PRIVATE_KEY || HARDHAT_TEST_PRIVATE_KEY)
+  };
+  return devWallet;
+};
+
+// Report the available wallets now and whenever another one announces itself;
+// returns a function that stops listening
+export const watchWallets = (onChange: (wallets: WalletOption[]) => void): (() => void) => {
+  const announced = new Map<string, WalletOption>();
+
+  const publish = () => {
+    const injected = announced.size > 0 ? [...announced.values()] : [legacyWallet()].filter((w): w is WalletOption => w !== null);
+    onChange(import.meta.env.DEV ? [...injected, getDevWallet()] : injected);
+  };
+
+  const handleAnnounce = (event: Event) => {
+    const { info, provider } = (event as AnnounceProviderEvent).detail;
+    announced.set(info.uuid, { info, provider });
+    publish();
+  };
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  publish();
+
+  return () => window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+};
@@ -0,0 +1,40 @@
+// Deep links for watch mode: ?watch=<address>&network=<hex chain id> opens a
+// portfolio read-only, without a wallet.
+
+import { ethers } from 'ethers';
+import { getNetwork } from './networks';
+
+const WATCH_PARAM = 'watch';
+const NETWORK_PARAM = 'network';
+
+export interface WatchTarget {
+  address: string;
+  chainId?: string; // supported network from the link, if it named one
+}
+
+// Address and network named by the current URL, if it is a watch link
+export const readWatchLink = (): WatchTarget | null => {
+  const params = new URLSearchParams(window.location.search);
+  const address = params.get(WATCH_PARAM);
+  if (!address || !ethers.isAddress(address)) return null;
+
+  const chainId = getNetwork(params.get(NETWORK_PARAM) ?? '')?.chainId;
+  return { address: ethers.getAddress(address), chainId };
+};
+
+export const getWatchUrl = (address: string, chainId: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(WATCH_PARAM, address);
+  url.searchParams.set(NETWORK_PARAM, chainId);
+  return url.toString();
+};
+
+// Keep the address bar in sync with what is being watched, without a reload
+export const updateWatchLink = (target: { address: string; chainId: string } | null) => {
+  const url = target ? new URL(getWatchUrl(target.address, target.chainId)) : new URL(window.location.href);
+  if (!target) {
+    url.searchParams.delete(WATCH_PARAM);
+    url.searchParams.delete(NETWORK_PARAM);
+  }
+  window.history.replaceState(null, '', url.toString());
+};